@@ -1,9 +1,17 @@
 
 import React, { useState, useEffect } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
-import { GameState, MediaItem, UserAnswer, GameDebugConfig } from './types';
+import { GameState, MediaItem, UserAnswer, GameDebugConfig, ScoringConfig } from './types';
 import { GAME_DATA } from './constants';
-import { CustomContentManager } from './utils/db';
+import { CustomContentManager, PackManager, SettingsManager, ItemStatsManager, SessionManager, LeaderboardManager, GameSession } from './utils/db';
+import { DEFAULT_SCORING_CONFIG, SCORING_SETTINGS_KEY, resolveScoringConfig } from './utils/scoring';
+import { createRandom, randomSeed } from './utils/random';
+import { buildRound, DEFAULT_SAMPLING_CONFIG, SAMPLING_SETTINGS_KEY } from './utils/sampler';
+import { DEFAULT_DIFFICULTY_CONFIG, DIFFICULTY_SETTINGS_KEY, resolveDifficulty } from './utils/difficulty';
+import { encodeChallengeCode } from './utils/challenge';
+import { GameEvent } from './utils/gameMachine';
+import { LeaderboardPlacement, LEADERBOARD_DURATIONS, findPlacements, normalizeInitials } from './utils/leaderboard';
+import { GameFilters, FilterCatalog, NO_FILTERS, GAME_FILTERS_KEY, MIN_GAME_ITEMS, buildFilterCatalog, filterItems, pruneFilters } from './utils/gameFilters';
 import { playBGM, stopBGM, initAudio } from './utils/music';
 import { WelcomeScreen } from './components/WelcomeScreen';
 import { GameScreen } from './components/GameScreen';
@@ -16,13 +24,26 @@ const App: React.FC = () => {
   const [gameItems, setGameItems] = useState<MediaItem[]>([]);
   const [userAnswers, setUserAnswers] = useState<UserAnswer[]>([]);
   const [gameDuration, setGameDuration] = useState<number>(30);
+  const [gameSeed, setGameSeed] = useState<number>(0);
+  // Item difficulties for adaptive mode, undefined for a regular game
+  const [gameDifficulties, setGameDifficulties] = useState<Record<string, number> | undefined>(undefined);
   const [debugConfig, setDebugConfig] = useState<GameDebugConfig | undefined>(undefined);
+  const [scoringConfig, setScoringConfig] = useState<ScoringConfig>(DEFAULT_SCORING_CONFIG);
+  // Setup chosen on the Welcome screen, kept across games and restarts
+  const [gameFilters, setGameFilters] = useState<GameFilters>(NO_FILTERS);
+  // What the current game was actually played with, for its challenge code
+  const [activeFilters, setActiveFilters] = useState<GameFilters>(NO_FILTERS);
+  const [filterCatalog, setFilterCatalog] = useState<FilterCatalog>({ categories: [], aiModels: [] });
+  const [availableItems, setAvailableItems] = useState<MediaItem[]>([]);
+  // High score boards the last game made it onto
+  const [placements, setPlacements] = useState<LeaderboardPlacement[]>([]);
 
   // Load custom content on mount
   const loadGameData = async () => {
     try {
-      // This now fetches from BOTH IndexedDB and local game_data.json
-      const allItems = await CustomContentManager.getAllItems();
+      // This now fetches from BOTH IndexedDB and local game_data.json,
+      // limited to packs that are enabled in the Admin Dashboard
+      const allItems = await CustomContentManager.getPlayableItems();
       
       // Deduplicate against constants if any (Constants are empty now but keeping for safety)
       const itemMap = new Map<string, MediaItem>();
@@ -36,37 +57,151 @@ const App: React.FC = () => {
     }
   };
 
-  // Shuffle items when starting a new game
-  const startGame = async (duration: number, config?: GameDebugConfig) => {
-    setGameDuration(duration);
-    setDebugConfig(config);
-    
+  // Admin scoring rules, with the overrides of any pack this game draws from
+  const loadScoringConfig = async (items: MediaItem[]) => {
+    try {
+      const [adminConfig, packs] = await Promise.all([
+        SettingsManager.get(SCORING_SETTINGS_KEY, DEFAULT_SCORING_CONFIG),
+        PackManager.getAllPacks(),
+      ]);
+      const packIds = new Set(items.map(item => item.packId));
+      return resolveScoringConfig(adminConfig, packs.filter(pack => packIds.has(pack.id)));
+    } catch (e) {
+      console.error("Failed to load scoring rules", e);
+      return DEFAULT_SCORING_CONFIG;
+    }
+  };
+
+  // Adaptive mode needs every item rated, by hand or from its play stats
+  const loadDifficulties = async (items: MediaItem[]) => {
+    try {
+      const config = await SettingsManager.get(DIFFICULTY_SETTINGS_KEY, DEFAULT_DIFFICULTY_CONFIG);
+      if (!config.adaptive) return undefined;
+      const stats = new Map((await ItemStatsManager.getAll()).map(entry => [entry.itemId, entry]));
+      return Object.fromEntries(items.map(item => [item.id, resolveDifficulty(item, stats.get(item.id))]));
+    } catch (e) {
+      console.error("Failed to load item difficulties", e);
+      return undefined;
+    }
+  };
+
+  useEffect(() => {
+    SettingsManager.get(GAME_FILTERS_KEY, NO_FILTERS)
+      .then(setGameFilters)
+      .catch(e => console.error("Failed to load game setup", e));
+  }, []);
+
+  // The Welcome screen lists what the setup filters can choose from
+  useEffect(() => {
+    if (gameState === 'WELCOME') loadGameData().then(setAvailableItems);
+  }, [gameState]);
+
+  const handleFiltersChange = (filters: GameFilters) => {
+    setGameFilters(filters);
+    SettingsManager.set(GAME_FILTERS_KEY, filters).catch(e => console.error("Failed to save game setup", e));
+  };
+
+  // Filter and shuffle the pool when starting a new game. Passing the seed and
+  // filters from a challenge code reproduces that game's order, which is why
+  // challenges are never adaptive.
+  const startGame = async (duration: number, options: { config?: GameDebugConfig; seed?: number; filters?: GameFilters } = {}) => {
     // Initialize Audio Engine and Start Music
     initAudio();
 
     const allItems = await loadGameData();
+    setAvailableItems(allItems);
 
     // CRITICAL: Check if we have any items. 
     // Since GAME_DATA is now empty, we must rely on uploaded content or local game_data.json.
     if (allItems.length === 0) {
-      alert("No media found! Please upload a Game Pack (.zip) in the Admin Dashboard, OR ensure a 'game_data.json' and 'media' folder exist in the project root.");
+      alert("No media found! Please upload or enable a Game Pack (.zip) in the Admin Dashboard, OR ensure a 'game_data.json' and 'media' folder exist in the project root.");
       setGameState('ADMIN');
       return;
     }
 
+    const catalog = buildFilterCatalog(allItems);
+    const filters = pruneFilters(options.filters ?? gameFilters, catalog);
+    const matching = filterItems(allItems, filters);
+    if (matching.length === 0) {
+      alert("No media matches the selected game setup. Choose more categories, media types or AI models.");
+      return;
+    }
+    if (matching.length < MIN_GAME_ITEMS && !window.confirm(`Only ${matching.length} items match the selected game setup, so the game may end before the timer runs out. Play anyway?`)) {
+      return;
+    }
+
+    const seed = options.seed ?? randomSeed();
+    setGameDuration(duration);
+    setGameSeed(seed);
+    setDebugConfig(options.config);
+    setActiveFilters(filters);
+    setFilterCatalog(catalog);
+    setScoringConfig(await loadScoringConfig(matching));
+    setGameDifficulties(options.seed === undefined ? await loadDifficulties(matching) : undefined);
+    const sampling = await SettingsManager.get(SAMPLING_SETTINGS_KEY, DEFAULT_SAMPLING_CONFIG)
+      .catch(() => DEFAULT_SAMPLING_CONFIG);
     playBGM();
-    const shuffled = [...allItems].sort(() => Math.random() - 0.5);
-    setGameItems(shuffled);
+    // Sorted first so the order only depends on the seed, not on load order
+    const pool = [...matching].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    setGameItems(buildRound(pool, createRandom(seed), sampling));
     setUserAnswers([]);
     setGameState('PLAYING');
   };
 
-  const handleEndGame = (answers: UserAnswer[]) => {
+  const totalScore = (answers: UserAnswer[]) => answers.reduce((sum, answer) => sum + answer.pointsEarned, 0);
+
+  const createSession = (answers: UserAnswer[], events: GameEvent[]): GameSession => {
+    const answeredIds = new Set(answers.map(answer => answer.itemId));
+    const ended = events.find(event => event.type === 'game_ended');
+    return {
+      id: crypto.randomUUID(),
+      startedAt: events[0]?.at ?? Date.now(),
+      endedAt: ended?.at ?? Date.now(),
+      duration: gameDuration,
+      seed: gameSeed,
+      score: totalScore(answers),
+      adaptive: !!gameDifficulties,
+      items: gameItems
+        .filter(item => answeredIds.has(item.id))
+        .map(({ id, type, isReal, category, aiModel, packId }) => ({ id, type, isReal, category, aiModel, packId })),
+      answers,
+      events,
+    };
+  };
+
+  const handleEndGame = (answers: UserAnswer[], events: GameEvent[]) => {
     stopBGM(); // Stop music when game ends
+    // Admin test games would skew the stats and difficulty estimates
+    if (!debugConfig) {
+      SessionManager.saveSession(createSession(answers, events)).catch(e => console.error("Failed to save game session", e));
+    }
     setUserAnswers(answers);
+    setPlacements([]);
+    // Test games and modes without a board don't count
+    if (!debugConfig && LEADERBOARD_DURATIONS.includes(gameDuration)) {
+      LeaderboardManager.getEntries(gameDuration)
+        .then(entries => setPlacements(findPlacements(entries, totalScore(answers), gameDuration)))
+        .catch(e => console.error("Failed to load the leaderboard", e));
+    }
     setGameState('RESULTS');
   };
 
+  const handleSubmitInitials = (initials: string) => {
+    LeaderboardManager.addEntry({
+      id: crypto.randomUUID(),
+      initials: normalizeInitials(initials),
+      score: totalScore(userAnswers),
+      duration: gameDuration,
+      achievedAt: Date.now(),
+    }).catch(e => console.error("Failed to save the high score", e));
+  };
+
+  // Adaptive games reorder themselves as they go and test games don't use the
+  // seeded round, so neither can be replayed from a code
+  const challengeCode = !gameDifficulties && !debugConfig
+    ? encodeChallengeCode({ seed: gameSeed, duration: gameDuration, filters: activeFilters }, filterCatalog)
+    : undefined;
+
   const handleBackToHome = () => {
     stopBGM(); // Ensure music stops if returning home mid-game
     setGameState('WELCOME');
@@ -83,7 +218,10 @@ const App: React.FC = () => {
             transition={{ duration: 0.3 }}
           >
             <WelcomeScreen 
-              onStart={(duration) => startGame(duration)} 
+              items={availableItems}
+              filters={gameFilters}
+              onFiltersChange={handleFiltersChange}
+              onStart={(duration, challenge) => startGame(duration, { seed: challenge?.seed, filters: challenge?.filters })} 
               onAdmin={() => setGameState('ADMIN')}
             />
           </motion.div>
@@ -100,7 +238,7 @@ const App: React.FC = () => {
           >
             <AdminScreen 
                 onBack={handleBackToHome} 
-                onTestGame={(config, duration) => startGame(duration || 30, config)}
+                onTestGame={(config, duration) => startGame(duration || 30, { config })}
             />
           </motion.div>
         )}
@@ -119,6 +257,9 @@ const App: React.FC = () => {
                 duration={gameDuration} 
                 onEndGame={handleEndGame} 
                 debugConfig={debugConfig}
+                scoring={scoringConfig}
+                seed={gameSeed}
+                difficulties={gameDifficulties}
             />
           </motion.div>
         )}
@@ -133,8 +274,12 @@ const App: React.FC = () => {
           >
             <ResultsScreen 
               answers={userAnswers} 
+              seed={gameSeed}
+              challengeCode={challengeCode}
+              placements={placements}
+              onSubmitInitials={handleSubmitInitials}
               onReview={() => setGameState('REVIEW')} 
-              onPlayAgain={() => startGame(gameDuration)} 
+              onPlayAgain={() => startGame(gameDuration, { filters: activeFilters })} 
             />
           </motion.div>
         )}
@@ -150,7 +295,7 @@ const App: React.FC = () => {
             <ReviewScreen 
               answers={userAnswers} 
               items={gameItems} 
-              onPlayAgain={() => startGame(gameDuration)}
+              onPlayAgain={() => startGame(gameDuration, { filters: activeFilters })}
               onBackToHome={handleBackToHome}
             />
           </motion.div>
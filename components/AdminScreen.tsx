@@ -1,10 +1,21 @@
 
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Upload, Save, Trash2, Download, FileUp, Check, AlertCircle, Lock, Edit2, X, TestTube, Zap, Flame, Gift } from 'lucide-react';
-import { MediaItem, GameDebugConfig } from '../types';
-import { CustomContentManager, fileToBase64 } from '../utils/db';
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Upload, Save, Trash2, Download, FileUp, Check, AlertCircle, Lock, Edit2, X, TestTube, Zap, Flame, Gift, Package, Plus, Eye, EyeOff, CheckSquare, Square, Copy, Image as ImageIcon, HardDrive, Minimize2, ShieldCheck, Trophy, Scale, Gauge } from 'lucide-react';
+import { MediaItem, GameDebugConfig, GamePack, ScoringConfig, SpeedBonusCurve, ItemStats } from '../types';
+import { hashBlob } from '../utils/blobs';
+import { computeDHash, groupNearDuplicates, hammingDistance } from '../utils/imageHash';
+import { getStorageEstimate, requestPersistentStorage, isQuotaError, formatBytes, StorageEstimate } from '../utils/storage';
+import { processImage, recompressImage, ProcessedImage, ImageProcessingSettings, ImageOutputFormat, DEFAULT_IMAGE_SETTINGS, IMAGE_SETTINGS_KEY } from '../utils/imageProcessing';
+import { CustomContentManager, PackManager, SettingsManager, ItemStatsManager, createPack, resolvePacks, StorageUsage, ExportOptions, ExportProgress, ImportPreview, ImportReport, ImportItemStatus, ConflictResolution, DEFAULT_RESOLUTIONS, DOWNLOAD_EXPORT_LIMIT } from '../utils/db';
+import { validateMediaItem, formatValidationError } from '../utils/manifest';
+import { DEFAULT_SCORING_CONFIG, SCORING_SETTINGS_KEY, applyScoringOverrides } from '../utils/scoring';
+import { DEFAULT_SAMPLING_CONFIG, SAMPLING_SETTINGS_KEY, SamplingConfig } from '../utils/sampler';
+import { DEFAULT_DIFFICULTY_CONFIG, DIFFICULTY_SETTINGS_KEY, DIFFICULTY_LEVELS, DIFFICULTY_LABELS, MIN_ANSWERS_FOR_ESTIMATE, DifficultyConfig, estimateDifficulty } from '../utils/difficulty';
+import { summarizeItemStats, sortItemsByStats, ItemSortKey, ITEM_SORT_LABELS } from '../utils/itemStats';
+import { formatDecisionTime } from '../utils/stopwatch';
 import { MediaDisplay } from './MediaDisplay';
-import { GAME_DATA } from '../constants';
+import { AnalyticsDashboard } from './AnalyticsDashboard';
+import { GAME_DATA, DEFAULT_PACK_ID, LOCAL_PACK_ID } from '../constants';
 import { motion } from 'framer-motion';
 
 interface AdminScreenProps {
@@ -64,8 +75,8 @@ const ClipButton = ({
 };
 
 // Specific small button for Radio inputs or Tabs
-const SmallClipButton = ({ active, onClick, children, variant = 'cyan', className="" }: any) => (
-    <ClipButton active={active} onClick={onClick} variant={variant} className={`text-sm py-2 px-4 ${className}`}>
+const SmallClipButton = ({ active, onClick, children, variant = 'cyan', className="", disabled = false }: any) => (
+    <ClipButton active={active} onClick={onClick} variant={variant} disabled={disabled} className={`text-sm py-2 px-4 ${className}`}>
         {children}
     </ClipButton>
 );
@@ -77,9 +88,35 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
   const [password, setPassword] = useState('');
   const [authError, setAuthError] = useState(false);
 
-  const [activeTab, setActiveTab] = useState<'editor' | 'manage' | 'system'>('editor');
+  const [activeTab, setActiveTab] = useState<'editor' | 'manage' | 'packs' | 'analytics' | 'system'>('editor');
   const [customItems, setCustomItems] = useState<MediaItem[]>([]);
   const [allItems, setAllItems] = useState<MediaItem[]>([]);
+  const [packs, setPacks] = useState<GamePack[]>([]);
+  const [itemStats, setItemStats] = useState<Record<string, ItemStats>>({});
+  const [itemSort, setItemSort] = useState<ItemSortKey>('default');
+  const [newPack, setNewPack] = useState({ name: '', description: '', author: '', version: '1.0' });
+
+  // Export State
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Near-duplicate scan, null until the first scan has run
+  const [nearDuplicates, setNearDuplicates] = useState<MediaItem[][] | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [thumbnailProgress, setThumbnailProgress] = useState<string | null>(null);
+
+  // Storage State, loaded when the System tab is opened
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [imageSettings, setImageSettings] = useState<ImageProcessingSettings>(DEFAULT_IMAGE_SETTINGS);
+  const [scoringConfig, setScoringConfig] = useState<ScoringConfig>(DEFAULT_SCORING_CONFIG);
+  const [samplingConfig, setSamplingConfig] = useState<SamplingConfig>(DEFAULT_SAMPLING_CONFIG);
+  const [difficultyConfig, setDifficultyConfig] = useState<DifficultyConfig>(DEFAULT_DIFFICULTY_CONFIG);
+
+  // Import State
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importResolutions, setImportResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [statusMsg, setStatusMsg] = useState<{ type: 'success' | 'error', text: string } | null>(null);
 
@@ -89,6 +126,12 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
   const [previewUrl, setPreviewUrl] = useState<string>('');
   // We need to track the existing URL if editing and no new file is uploaded
   const [existingUrl, setExistingUrl] = useState<string>(''); 
+  // Stored items that already use the selected file
+  const [duplicateOf, setDuplicateOf] = useState<MediaItem[]>([]);
+  // Resized/re-encoded version of the selected file, saved unless preserveOriginal is set
+  const [processedMedia, setProcessedMedia] = useState<ProcessedImage | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const latestFile = useRef<File | null>(null);
   
   const [formData, setFormData] = useState<Partial<MediaItem>>({
     isReal: true,
@@ -98,16 +141,35 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
     explanation: '',
     shortTip: '',
     aiModel: '',
-    title: ''
+    title: '',
+    packId: DEFAULT_PACK_ID
   });
   const [tipsInput, setTipsInput] = useState('');
 
   useEffect(() => {
     if (isAuthenticated) {
       loadItems();
+      SettingsManager.get(IMAGE_SETTINGS_KEY, DEFAULT_IMAGE_SETTINGS)
+        .then(setImageSettings)
+        .catch(err => console.error("Failed to load image settings", err));
+      SettingsManager.get(SCORING_SETTINGS_KEY, DEFAULT_SCORING_CONFIG)
+        .then(setScoringConfig)
+        .catch(err => console.error("Failed to load scoring rules", err));
+      SettingsManager.get(SAMPLING_SETTINGS_KEY, DEFAULT_SAMPLING_CONFIG)
+        .then(setSamplingConfig)
+        .catch(err => console.error("Failed to load round balance settings", err));
+      SettingsManager.get(DIFFICULTY_SETTINGS_KEY, DEFAULT_DIFFICULTY_CONFIG)
+        .then(setDifficultyConfig)
+        .catch(err => console.error("Failed to load difficulty settings", err));
     }
   }, [isAuthenticated]);
 
+  useEffect(() => {
+    if (isAuthenticated && activeTab === 'system') {
+      refreshStorage();
+    }
+  }, [isAuthenticated, activeTab]);
+
   const handleLogin = (e: React.FormEvent) => {
     e.preventDefault();
     if (password === 'gorams!') {
@@ -124,6 +186,13 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
       setAllItems(all);
       // Filter distinct custom items for internal tracking if needed
       setCustomItems(all.filter(i => i.isCustom));
+      setPacks(resolvePacks(await PackManager.getAllPacks(), all));
+      setSelectedIds(prev => prev.filter(id => all.some(i => i.id === id)));
+      const stats = await ItemStatsManager.getAll().catch(err => {
+        console.error("Failed to load item stats", err);
+        return [];
+      });
+      setItemStats(Object.fromEntries(stats.map(entry => [entry.itemId, entry])));
     } catch (err) {
       console.error("Failed to load items", err);
       setAllItems(GAME_DATA);
@@ -142,6 +211,33 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
       // Auto-detect type
       const type = selectedFile.type.startsWith('video') ? 'video' : 'image';
       setFormData(prev => ({ ...prev, type }));
+
+      latestFile.current = selectedFile;
+      setDuplicateOf([]);
+      setProcessedMedia(null);
+      setIsProcessing(true);
+
+      let processed: ProcessedImage | null = null;
+      try {
+        processed = await processImage(selectedFile, imageSettings);
+      } catch (err) {
+        console.warn("Image processing failed, the original file will be stored", err);
+      }
+      // Another file was picked while this one was processing
+      if (latestFile.current !== selectedFile) return;
+      setProcessedMedia(processed);
+      setIsProcessing(false);
+
+      // Either version may already be stored, depending on preserveOriginal when it was saved
+      try {
+        const hashes = new Set([await hashBlob(selectedFile)]);
+        if (processed?.changed) hashes.add(await hashBlob(processed.blob));
+        const matches = (await Promise.all(Array.from(hashes, hash => CustomContentManager.findItemsByHash(hash)))).flat();
+        if (latestFile.current !== selectedFile) return;
+        setDuplicateOf(matches.filter(item => item.id !== editingId));
+      } catch (err) {
+        console.error("Failed to check for duplicate media", err);
+      }
     }
   };
 
@@ -155,11 +251,16 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
       explanation: item.explanation,
       shortTip: item.shortTip || '',
       aiModel: item.aiModel || '',
+      packId: item.packId || DEFAULT_PACK_ID,
+      preserveOriginal: item.preserveOriginal || false,
+      difficulty: item.difficulty,
     });
     setTipsInput(item.tips.join(', '));
     setPreviewUrl(item.url);
     setExistingUrl(item.url);
     setFile(null); 
+    setDuplicateOf([]);
+    setProcessedMedia(null);
     
     setActiveTab('editor');
     setStatusMsg(null);
@@ -170,10 +271,14 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
 
   const handleCancelEdit = () => {
     setEditingId(null);
+    latestFile.current = null;
     setFile(null);
+    setDuplicateOf([]);
+    setProcessedMedia(null);
+    setIsProcessing(false);
     setPreviewUrl('');
     setExistingUrl('');
-    setFormData({ isReal: true, type: 'image', category: 'General', explanation: '', shortTip: '', title: '', aiModel: '' });
+    setFormData({ isReal: true, type: 'image', category: 'General', explanation: '', shortTip: '', title: '', aiModel: '', packId: DEFAULT_PACK_ID });
     setTipsInput('');
     setStatusMsg(null);
   };
@@ -186,10 +291,8 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
 
     setIsLoading(true);
     try {
-      let finalUrl = existingUrl;
-      if (file) {
-        finalUrl = await fileToBase64(file);
-      }
+      // A new file is stored as a blob alongside the item, not inlined in the url
+      const finalUrl = file ? '' : existingUrl;
 
       const idToUse = editingId || crypto.randomUUID();
 
@@ -204,17 +307,39 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
         aiModel: formData.aiModel,
         shortTip: formData.shortTip,
         tips: tipsInput.split(',').map(t => t.trim()).filter(t => t.length > 0),
-        isCustom: true 
+        isCustom: true,
+        packId: formData.packId || DEFAULT_PACK_ID,
+        preserveOriginal: formData.preserveOriginal || undefined,
+        difficulty: formData.difficulty
       };
 
-      await CustomContentManager.saveItem(newItem);
+      // Same rules as imported packs. A new file has no url until it's stored.
+      const errors = validateMediaItem(newItem, file ? ['url'] : []);
+      if (errors.length > 0) {
+        setStatusMsg({ type: 'error', text: `Please fix: ${errors.map(formatValidationError).join('; ')}` });
+        return;
+      }
+
+      // The default library pack may have been removed from an older database
+      if (newItem.packId === DEFAULT_PACK_ID && !packs.some(p => p.id === DEFAULT_PACK_ID)) {
+        await PackManager.savePack(createPack({ id: DEFAULT_PACK_ID, name: 'Library', description: 'Items added from the Admin editor' }));
+      }
+
+      const media = file && processedMedia?.changed && !formData.preserveOriginal ? processedMedia.blob : file;
+      await CustomContentManager.saveItem(newItem, media || undefined);
       setStatusMsg({ type: 'success', text: editingId ? 'Item updated successfully!' : 'Content saved successfully!' });
       
       handleCancelEdit();
       loadItems();
 
     } catch (err) {
-      setStatusMsg({ type: 'error', text: 'Failed to save content. File might be too large.' });
+      if (isQuotaError(err)) {
+        const estimate = await getStorageEstimate().catch(() => null);
+        const used = estimate?.supported ? ` (${formatBytes(estimate.usage)} of ${formatBytes(estimate.quota)} used)` : '';
+        setStatusMsg({ type: 'error', text: `Storage is full${used}. Free up space in the System tab.` });
+      } else {
+        setStatusMsg({ type: 'error', text: 'Failed to save content. File might be too large.' });
+      }
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -224,42 +349,299 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this item?')) {
       await CustomContentManager.deleteItem(id);
+      dropFromNearDuplicates([id]);
       loadItems();
     }
   };
 
-  const handleExport = async () => {
+  const dropFromNearDuplicates = (ids: string[]) => {
+    setNearDuplicates(prev => prev && prev
+      .map(group => group.filter(item => !ids.includes(item.id)))
+      .filter(group => group.length > 1));
+  };
+
+  const handleFindNearDuplicates = async () => {
+    setIsScanning(true);
+    setStatusMsg(null);
+    try {
+      const hashed: MediaItem[] = [];
+      const computed: Record<string, string> = {};
+      let unreadable = 0;
+
+      // Videos aren't compared. Images missing a hash are hashed once and the
+      // result is kept for stored items.
+      for (const item of allItems.filter(i => i.type === 'image')) {
+        let perceptualHash = item.perceptualHash;
+        if (!perceptualHash) {
+          try {
+            perceptualHash = await computeDHash(item.url);
+            computed[item.id] = perceptualHash;
+          } catch (err) {
+            console.warn(`Skipping ${item.id} in near-duplicate scan`, err);
+            unreadable++;
+            continue;
+          }
+        }
+        hashed.push({ ...item, perceptualHash });
+      }
+
+      if (Object.keys(computed).length > 0) {
+        await CustomContentManager.setPerceptualHashes(computed);
+        loadItems();
+      }
+      setNearDuplicates(groupNearDuplicates(hashed));
+      if (unreadable > 0) {
+        setStatusMsg({ type: 'error', text: `${unreadable} image(s) could not be read and were left out of the scan.` });
+      }
+    } catch (err) {
+      setStatusMsg({ type: 'error', text: 'Near-duplicate scan failed.' });
+      console.error(err);
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleGenerateThumbnails = async () => {
+    setThumbnailProgress('Starting...');
+    setStatusMsg(null);
+    try {
+      const generated = await CustomContentManager.generateMissingThumbnails((done, total) => setThumbnailProgress(`${done}/${total}`));
+      setStatusMsg({ type: 'success', text: generated > 0 ? `Generated ${generated} thumbnail(s).` : 'Every stored item already has a thumbnail.' });
+      loadItems();
+    } catch (err) {
+      setStatusMsg({ type: 'error', text: 'Thumbnail generation failed.' });
+      console.error(err);
+    } finally {
+      setThumbnailProgress(null);
+    }
+  };
+
+  // Keep one copy of a group and delete the others that can be deleted
+  const handleKeepDuplicate = async (keep: MediaItem, group: MediaItem[]) => {
+    const removable = group.filter(item => item.id !== keep.id && item.isCustom && item.packId !== LOCAL_PACK_ID);
+    if (removable.length === 0) {
+      setStatusMsg({ type: 'error', text: 'The other copies are built-in or locally installed and cannot be deleted here.' });
+      return;
+    }
+    if (!confirm(`Keep "${keep.title}" and delete ${removable.map(item => `"${item.title}"`).join(', ')}?`)) return;
+
+    for (const item of removable) {
+      await CustomContentManager.deleteItem(item.id);
+    }
+    dropFromNearDuplicates(removable.map(item => item.id));
+    setStatusMsg({ type: 'success', text: `Removed ${removable.length} duplicate(s) of "${keep.title}".` });
+    loadItems();
+  };
+
+  const handleCreatePack = async () => {
+    if (!newPack.name.trim()) {
+      setStatusMsg({ type: 'error', text: 'Please give the pack a name.' });
+      return;
+    }
+
+    try {
+      await PackManager.savePack(createPack({
+        name: newPack.name.trim(),
+        description: newPack.description.trim(),
+        author: newPack.author.trim(),
+        version: newPack.version.trim() || '1.0',
+      }));
+      setNewPack({ name: '', description: '', author: '', version: '1.0' });
+      setStatusMsg({ type: 'success', text: 'Pack created.' });
+      loadItems();
+    } catch (err) {
+      console.error(err);
+      setStatusMsg({ type: 'error', text: 'Failed to create pack.' });
+    }
+  };
+
+  const handleTogglePack = async (pack: GamePack) => {
+    await PackManager.setPackEnabled(pack, !pack.enabled);
+    loadItems();
+  };
+
+  const handleDeletePack = async (pack: GamePack) => {
+    const count = allItems.filter(i => i.packId === pack.id).length;
+    if (confirm(`Delete the pack "${pack.name}" and its ${count} items? This cannot be undone.`)) {
+      await PackManager.deletePack(pack.id);
+      loadItems();
+    }
+  };
+
+  const refreshStorage = async () => {
+    try {
+      const [estimate, usage] = await Promise.all([getStorageEstimate(), CustomContentManager.getStorageUsage()]);
+      setStorageEstimate(estimate);
+      setStorageUsage(usage);
+    } catch (err) {
+      console.error("Failed to read storage usage", err);
+    }
+  };
+
+  const handlePersistStorage = async () => {
+    const granted = await requestPersistentStorage();
+    setStatusMsg(granted
+      ? { type: 'success', text: 'Storage is now persistent and won\'t be cleared by the browser.' }
+      : { type: 'error', text: 'The browser declined persistent storage. Installing the app or bookmarking it can help.' });
+    refreshStorage();
+  };
+
+  const handleBulkDelete = async (ids: string[]) => {
+    if (!confirm(`Delete ${ids.length} item(s)? This cannot be undone.`)) return;
     setIsLoading(true);
     try {
-      await CustomContentManager.exportGamePack();
-      setStatusMsg({ type: 'success', text: 'Game Pack (.zip) exported successfully!' });
+      for (const id of ids) {
+        await CustomContentManager.deleteItem(id);
+      }
+      setStatusMsg({ type: 'success', text: `Deleted ${ids.length} item(s).` });
+    } finally {
+      setIsLoading(false);
+      loadItems();
+      refreshStorage();
+    }
+  };
+
+  const handleRecompress = async (ids: string[]) => {
+    setIsLoading(true);
+    try {
+      // Items sharing a file are handled together by replaceMediaFile
+      const targets = allItems.filter(item => ids.includes(item.id) && item.type === 'image' && item.mediaHash && !item.preserveOriginal);
+      const hashes = new Set<string>(targets.map(item => item.mediaHash!));
+      let saved = 0;
+      let recompressed = 0;
+
+      for (const hash of hashes) {
+        const blob = await CustomContentManager.getMediaBlob(hash);
+        const smaller = blob && await recompressImage(blob, imageSettings);
+        if (!blob || !smaller) continue;
+
+        await CustomContentManager.replaceMediaFile(hash, smaller);
+        saved += blob.size - smaller.size;
+        recompressed += targets.filter(item => item.mediaHash === hash).length;
+      }
+
+      const unchanged = ids.length - recompressed;
+      setStatusMsg({
+        type: 'success',
+        text: `Recompressed ${recompressed} item(s), saved ${formatBytes(saved)}.${unchanged > 0 ? ` ${unchanged} left unchanged (videos, preserved originals or already small).` : ''}`
+      });
+    } catch (err) {
+      setStatusMsg({ type: 'error', text: 'Recompression failed.' });
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+      loadItems();
+      refreshStorage();
+    }
+  };
+
+  const handleSaveImageSettings = async (settings: ImageProcessingSettings) => {
+    try {
+      await SettingsManager.set(IMAGE_SETTINGS_KEY, settings);
+      setImageSettings(settings);
+      setStatusMsg({ type: 'success', text: 'Upload settings saved.' });
+    } catch (err) {
+      setStatusMsg({ type: 'error', text: 'Failed to save upload settings.' });
+      console.error(err);
+    }
+  };
+
+  const handleSaveScoring = async (config: ScoringConfig) => {
+    try {
+      await SettingsManager.set(SCORING_SETTINGS_KEY, config);
+      setScoringConfig(config);
+      setStatusMsg({ type: 'success', text: 'Scoring rules saved.' });
+    } catch (err) {
+      setStatusMsg({ type: 'error', text: 'Failed to save scoring rules.' });
+      console.error(err);
+    }
+  };
+
+  const handleSaveSampling = async (config: SamplingConfig) => {
+    try {
+      await SettingsManager.set(SAMPLING_SETTINGS_KEY, config);
+      setSamplingConfig(config);
+      setStatusMsg({ type: 'success', text: 'Round balance saved.' });
+    } catch (err) {
+      setStatusMsg({ type: 'error', text: 'Failed to save round balance.' });
+      console.error(err);
+    }
+  };
+
+  const handleSaveDifficulty = async (config: DifficultyConfig) => {
+    try {
+      await SettingsManager.set(DIFFICULTY_SETTINGS_KEY, config);
+      setDifficultyConfig(config);
+      setStatusMsg({ type: 'success', text: 'Difficulty settings saved.' });
     } catch (err) {
+      setStatusMsg({ type: 'error', text: 'Failed to save difficulty settings.' });
       console.error(err);
-      setStatusMsg({ type: 'error', text: 'Export failed. Check console.' });
+    }
+  };
+
+  const getPackName = (packId?: string) => packs.find(p => p.id === packId)?.name;
+
+  const handleExport = async (options: Omit<ExportOptions, 'onProgress'> = {}) => {
+    // Progress is shown on the System tab wherever the export was started from
+    setActiveTab('system');
+    setIsLoading(true);
+    try {
+      const saved = await CustomContentManager.exportGamePack({ ...options, onProgress: setExportProgress });
+      setStatusMsg(saved
+        ? { type: 'success', text: 'Game Pack (.zip) exported successfully!' }
+        : { type: 'error', text: 'Export cancelled.' });
+    } catch (err) {
+      console.error(err);
+      setStatusMsg({ type: 'error', text: `Export failed: ${err instanceof Error ? err.message : 'Unknown error'}` });
     } finally {
       setIsLoading(false);
+      setExportProgress(null);
     }
   };
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  };
+
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
+      const file = e.target.files[0];
+      e.target.value = ''; // Allow picking the same file again
       setIsLoading(true);
+      setImportReport(null);
       try {
-        const file = e.target.files[0];
         if (!file.name.endsWith('.zip')) {
             throw new Error("Please upload a .zip file");
         }
-        const count = await CustomContentManager.importGamePack(file);
-        setStatusMsg({ type: 'success', text: `Successfully imported ${count} items!` });
-        loadItems();
+        const preview = await CustomContentManager.previewGamePack(file);
+        setImportPreview(preview);
+        setImportResolutions({});
+        setStatusMsg(null);
       } catch (err) {
-        setStatusMsg({ type: 'error', text: 'Import failed.' });
+        console.error(err);
+        setStatusMsg({ type: 'error', text: `Import failed: ${err instanceof Error ? err.message : 'Unknown error'}` });
       } finally {
         setIsLoading(false);
       }
     }
   };
 
+  const handleConfirmImport = async () => {
+    if (!importPreview) return;
+    setIsLoading(true);
+    try {
+      const report = await CustomContentManager.applyGamePackImport(importPreview, importResolutions);
+      setImportReport(report);
+      setImportPreview(null);
+      loadItems();
+    } catch (err) {
+      console.error(err);
+      setStatusMsg({ type: 'error', text: `Import failed: ${err instanceof Error ? err.message : 'Unknown error'}` });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // --- LOGIN SCREEN ---
   if (!isAuthenticated) {
     return (
@@ -336,6 +718,12 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
           <SmallClipButton active={activeTab === 'manage'} onClick={() => { handleCancelEdit(); setActiveTab('manage'); }}>
             Manage ({allItems.length})
           </SmallClipButton>
+          <SmallClipButton active={activeTab === 'packs'} onClick={() => { handleCancelEdit(); setActiveTab('packs'); }}>
+            Packs ({packs.length})
+          </SmallClipButton>
+          <SmallClipButton active={activeTab === 'analytics'} onClick={() => { handleCancelEdit(); setActiveTab('analytics'); }}>
+            Analytics
+          </SmallClipButton>
           <SmallClipButton active={activeTab === 'system'} onClick={() => { handleCancelEdit(); setActiveTab('system'); }}>
             System
           </SmallClipButton>
@@ -391,6 +779,48 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
                   )}
                 </div>
 
+                {file && formData.type === 'image' && (
+                  <div className="bg-white/5 border border-white/10 p-3 text-sm space-y-2">
+                    {isProcessing ? (
+                      <p className="text-brand-cyan">Optimizing image...</p>
+                    ) : processedMedia?.changed ? (
+                      <p className="text-gray-300">
+                        {formatBytes(processedMedia.originalSize)}
+                        {processedMedia.originalWidth && ` (${processedMedia.originalWidth}×${processedMedia.originalHeight})`}
+                        {' → '}
+                        <strong className={formData.preserveOriginal ? 'text-gray-500 line-through' : 'text-brand-cyan'}>
+                          {formatBytes(processedMedia.blob.size)}
+                          {processedMedia.width && ` (${processedMedia.width}×${processedMedia.height})`}
+                        </strong>
+                      </p>
+                    ) : (
+                      <p className="text-gray-400">{formatBytes(file.size)}, stored as uploaded{imageSettings.enabled ? ' (already optimized)' : ''}.</p>
+                    )}
+                    <label className="flex items-start gap-2 cursor-pointer text-gray-300">
+                      <input 
+                        type="checkbox" 
+                        className="mt-1 accent-brand-gold"
+                        checked={formData.preserveOriginal || false}
+                        onChange={e => setFormData({ ...formData, preserveOriginal: e.target.checked })}
+                      />
+                      <span>
+                        Preserve original file
+                        <span className="block text-xs text-gray-500">For items where compression artifacts could affect the real vs. AI call.</span>
+                      </span>
+                    </label>
+                  </div>
+                )}
+
+                {duplicateOf.length > 0 && (
+                  <div className="flex items-start gap-2 p-3 bg-brand-gold/10 border border-brand-gold/40 text-brand-gold text-sm">
+                    <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>
+                      This file already exists as {duplicateOf.map(item => `"${item.title}"`).join(', ')}.
+                      Saving will reuse the stored copy.
+                    </span>
+                  </div>
+                )}
+
                 <div className="flex gap-4">
                   <div className="flex-1">
                     <ClipButton 
@@ -428,6 +858,22 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
                   value={formData.title || ''} 
                   onChange={v => setFormData({...formData, title: v})} 
                 />
+                <div>
+                  <label className="block text-sm font-medium text-brand-cyan mb-1">Game Pack</label>
+                  <select 
+                    className="w-full h-14 bg-black/40 border-2 border-brand-cyan/30 px-4 text-white focus:border-brand-gold outline-none font-medium"
+                    style={{ clipPath: "polygon(8px 0, 100% 0, 100% calc(100% - 8px), calc(100% - 8px) 100%, 0 100%, 0 8px)" }}
+                    value={formData.packId || DEFAULT_PACK_ID}
+                    onChange={e => setFormData({...formData, packId: e.target.value})}
+                  >
+                    {!packs.some(p => p.id === DEFAULT_PACK_ID) && (
+                      <option value={DEFAULT_PACK_ID} className="bg-brand-navy">Library</option>
+                    )}
+                    {packs.filter(p => p.id !== LOCAL_PACK_ID || formData.packId === LOCAL_PACK_ID).map(pack => (
+                      <option key={pack.id} value={pack.id} className="bg-brand-navy">{pack.name}</option>
+                    ))}
+                  </select>
+                </div>
                 <Input 
                   label="Category (e.g. 'Unnatural Physics')" 
                   value={formData.category || ''} 
@@ -447,6 +893,20 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
                     placeholder="e.g. Midjourney v6"
                   />
                 )}
+                <div>
+                  <label className="block text-sm font-medium text-brand-cyan mb-1">Difficulty</label>
+                  <select 
+                    className="w-full h-14 bg-black/40 border-2 border-brand-cyan/30 px-4 text-white focus:border-brand-gold outline-none font-medium"
+                    style={{ clipPath: "polygon(8px 0, 100% 0, 100% calc(100% - 8px), calc(100% - 8px) 100%, 0 100%, 0 8px)" }}
+                    value={formData.difficulty ?? ''}
+                    onChange={e => setFormData({...formData, difficulty: e.target.value ? parseInt(e.target.value, 10) : undefined})}
+                  >
+                    <option value="" className="bg-brand-navy">{describeEstimate(editingId ? itemStats[editingId] : undefined)}</option>
+                    {DIFFICULTY_LEVELS.map(level => (
+                      <option key={level} value={level} className="bg-brand-navy">{level} - {DIFFICULTY_LABELS[level]}</option>
+                    ))}
+                  </select>
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-brand-cyan mb-1">Explanation</label>
                   <textarea 
@@ -463,7 +923,7 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
                   placeholder="Check shadows, Look at hands..."
                 />
                 
-                <ClipButton onClick={handleSave} variant="gold" disabled={isLoading} className="w-full">
+                <ClipButton onClick={handleSave} variant="gold" disabled={isLoading || isProcessing} className="w-full">
                    {isLoading ? 'Saving...' : <><Save className="w-5 h-5" /> {editingId ? 'Update Item' : 'Save to Library'}</>}
                 </ClipButton>
               </div>
@@ -472,8 +932,47 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
 
           {/* MANAGE TAB */}
           {activeTab === 'manage' && (
+            <>
+            <div className="mb-4 flex justify-end gap-2">
+              <label className="mr-auto flex items-center gap-2 text-sm text-gray-400">
+                Sort by
+                <select 
+                  className="h-10 bg-black/40 border border-brand-cyan/30 px-3 text-white focus:border-brand-gold outline-none font-medium"
+                  value={itemSort}
+                  onChange={e => setItemSort(e.target.value as ItemSortKey)}
+                >
+                  {(Object.keys(ITEM_SORT_LABELS) as ItemSortKey[]).map(key => (
+                    <option key={key} value={key} className="bg-brand-navy">{ITEM_SORT_LABELS[key]}</option>
+                  ))}
+                </select>
+              </label>
+              <SmallClipButton onClick={handleGenerateThumbnails} disabled={thumbnailProgress !== null}>
+                <ImageIcon className="w-4 h-4" /> {thumbnailProgress ? `Generating ${thumbnailProgress}` : 'Generate Missing Thumbnails'}
+              </SmallClipButton>
+              <SmallClipButton onClick={handleFindNearDuplicates} disabled={isScanning}>
+                <Copy className="w-4 h-4" /> {isScanning ? 'Scanning...' : 'Find Near-Duplicates'}
+              </SmallClipButton>
+            </div>
+            {nearDuplicates && (
+              <NearDuplicatePanel 
+                groups={nearDuplicates}
+                getPackName={getPackName}
+                onKeep={handleKeepDuplicate}
+                onDelete={handleDelete}
+                onClose={() => setNearDuplicates(null)}
+              />
+            )}
+            {selectedIds.length > 0 && (
+              <div className="mb-4 flex items-center gap-4 bg-white/5 border border-brand-cyan/30 p-3">
+                <span className="text-sm font-bold text-brand-cyan">{selectedIds.length} selected</span>
+                <SmallClipButton onClick={() => handleExport({ itemIds: selectedIds })}>
+                  <Download className="w-4 h-4" /> Export Selected
+                </SmallClipButton>
+                <button onClick={() => setSelectedIds([])} className="text-sm text-gray-400 hover:text-white ml-auto">Clear Selection</button>
+              </div>
+            )}
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-              {allItems.map(item => (
+              {sortItemsByStats(allItems, itemStats, itemSort).map(item => (
                 <div 
                     key={item.id} 
                     className="relative group aspect-square bg-white/5 overflow-hidden border border-white/10 hover:border-brand-gold/50 hover:shadow-[0_0_15px_rgba(240,195,59,0.2)] transition-all"
@@ -482,7 +981,7 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
                   
                   {/* Media Background */}
                   <div className="absolute inset-0">
-                    <MediaDisplay item={item} autoPlay={false} objectFit="cover" className="w-full h-full" />
+                    <MediaDisplay item={item} autoPlay={false} objectFit="cover" className="w-full h-full" thumbnail />
                   </div>
 
                   {/* Gradient Overlay */}
@@ -510,6 +1009,10 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
                   {/* Content Overlay (Bottom) */}
                   <div className="absolute bottom-0 left-0 right-0 p-3 z-10">
                     <p className="font-bold text-sm text-white truncate mb-1.5 drop-shadow-md leading-tight" title={item.title}>{item.title}</p>
+                    {getPackName(item.packId) && (
+                      <p className="text-[10px] text-brand-cyan/80 truncate mb-1.5 uppercase tracking-wider">{getPackName(item.packId)}</p>
+                    )}
+                    <ItemStatsLine stats={itemStats[item.id]} />
                     <div className="flex justify-between items-center">
                       <span 
                         className={`text-[10px] px-2 py-0.5 font-bold uppercase shadow-sm backdrop-blur-md ${item.isReal ? 'bg-brand-cyan/90 text-brand-navy' : 'bg-brand-red/90 text-white'}`}
@@ -539,14 +1042,127 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
                             </button>
                          )}
                   </div>
+
+                  {/* Selection Toggle (above the hover overlay) */}
+                  <button 
+                      onClick={() => toggleSelected(item.id)}
+                      className={`absolute top-2 right-2 z-30 p-1 rounded transition-opacity ${selectedIds.includes(item.id) ? 'text-brand-gold opacity-100' : 'text-white opacity-60 hover:opacity-100'}`}
+                      title="Select for export"
+                  >
+                      {selectedIds.includes(item.id) ? <CheckSquare className="w-5 h-5" /> : <Square className="w-5 h-5" />}
+                  </button>
                 </div>
               ))}
             </div>
+            </>
           )}
 
+          {/* PACKS TAB */}
+          {activeTab === 'packs' && (
+            <div className="space-y-8">
+              <div 
+                  className="bg-white/5 border border-white/10 p-6"
+                  style={{ clipPath: "polygon(12px 0, 100% 0, 100% calc(100% - 12px), calc(100% - 12px) 100%, 0 100%, 0 12px)" }}
+              >
+                <h3 className="text-xl font-bold mb-4 flex items-center gap-2"><Plus className="w-5 h-5 text-brand-gold" /> New Pack</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                  <Input label="Name" value={newPack.name} onChange={v => setNewPack({ ...newPack, name: v })} placeholder="e.g. Elections 2026" />
+                  <Input label="Author" value={newPack.author} onChange={v => setNewPack({ ...newPack, author: v })} />
+                  <Input label="Description" value={newPack.description} onChange={v => setNewPack({ ...newPack, description: v })} />
+                  <Input label="Version" value={newPack.version} onChange={v => setNewPack({ ...newPack, version: v })} />
+                </div>
+                <ClipButton onClick={handleCreatePack} variant="gold" className="w-full md:w-auto">
+                  <Plus className="w-5 h-5" /> Create Pack
+                </ClipButton>
+              </div>
+
+              <div className="space-y-4">
+                {packs.map(pack => {
+                  const itemCount = allItems.filter(i => i.packId === pack.id).length;
+                  const canDelete = pack.id !== DEFAULT_PACK_ID && pack.id !== LOCAL_PACK_ID;
+
+                  return (
+                    <div 
+                        key={pack.id}
+                        className={`bg-white/5 border p-5 flex flex-col md:flex-row md:items-center gap-4 transition-opacity ${pack.enabled ? 'border-brand-cyan/30' : 'border-white/10 opacity-60'}`}
+                        style={{ clipPath: "polygon(12px 0, 100% 0, 100% calc(100% - 12px), calc(100% - 12px) 100%, 0 100%, 0 12px)" }}
+                    >
+                      <div className="w-12 h-12 bg-brand-cyan/20 flex items-center justify-center text-brand-cyan rounded-full shrink-0">
+                        <Package className="w-6 h-6" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-baseline gap-3 flex-wrap">
+                          <h4 className="text-lg font-bold text-white truncate">{pack.name}</h4>
+                          <span className="text-xs text-brand-gold font-bold">v{pack.version}</span>
+                          <span className="text-xs text-gray-400">{itemCount} items</span>
+                        </div>
+                        {pack.description && <p className="text-sm text-gray-400 truncate">{pack.description}</p>}
+                        <p className="text-xs text-brand-cyan/60 mt-1">
+                          {pack.author ? `By ${pack.author} · ` : ''}Created {new Date(pack.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <SmallClipButton active={pack.enabled} onClick={() => handleTogglePack(pack)}>
+                          {pack.enabled ? <><Eye className="w-4 h-4" /> Enabled</> : <><EyeOff className="w-4 h-4" /> Disabled</>}
+                        </SmallClipButton>
+                        {itemCount > 0 && (
+                          <SmallClipButton onClick={() => handleExport({ packId: pack.id })} disabled={isLoading}>
+                            <Download className="w-4 h-4" /> Export
+                          </SmallClipButton>
+                        )}
+                        {canDelete && (
+                          <SmallClipButton variant="red" onClick={() => handleDeletePack(pack)}>
+                            <Trash2 className="w-4 h-4" /> Delete
+                          </SmallClipButton>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* ANALYTICS TAB */}
+          {activeTab === 'analytics' && <AnalyticsDashboard items={allItems} />}
+
           {/* SYSTEM TAB */}
           {activeTab === 'system' && (
             <div className="space-y-8">
+              {importPreview && (
+                <ImportPreviewPanel 
+                  preview={importPreview}
+                  resolutions={importResolutions}
+                  onResolve={(id, resolution) => setImportResolutions(prev => ({ ...prev, [id]: resolution }))}
+                  onConfirm={handleConfirmImport}
+                  onCancel={() => setImportPreview(null)}
+                  isLoading={isLoading}
+                />
+              )}
+
+              {importReport && (
+                <ImportReportPanel report={importReport} onDismiss={() => setImportReport(null)} />
+              )}
+
+              <StoragePanel 
+                estimate={storageEstimate}
+                usage={storageUsage}
+                items={customItems.filter(item => item.packId !== LOCAL_PACK_ID)}
+                packs={packs}
+                onPersist={handlePersistStorage}
+                onDelete={handleBulkDelete}
+                onRecompress={handleRecompress}
+                isLoading={isLoading}
+              />
+
+              <ImageSettingsPanel settings={imageSettings} onSave={handleSaveImageSettings} />
+
+              <ScoringPanel config={scoringConfig} packs={packs} onSave={handleSaveScoring} />
+
+              <RoundBalancePanel config={samplingConfig} onSave={handleSaveSampling} />
+
+              <DifficultyPanel config={difficultyConfig} onSave={handleSaveDifficulty} />
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div 
                     className="bg-white/5 border border-white/10 p-6"
@@ -562,10 +1178,33 @@ export const AdminScreen: React.FC<AdminScreenProps> = ({ onBack, onTestGame })
                     This creates a <strong>.zip</strong> file containing all content.
                     <br/><br/>
                     <strong>Install Locally:</strong> Unzip this to your project root. It will create the 'media' folder and 'game_data.json' needed for a permanent install.
+                    {!window.showSaveFilePicker && (
+                      <>
+                        <br/><br/>
+                        <strong>Large Packs:</strong> This browser has no save dialog, so the zip is built in memory and exports are limited to {formatBytes(DOWNLOAD_EXPORT_LIMIT)}. Export one pack at a time, or use Chrome or Edge.
+                      </>
+                    )}
                   </p>
-                  <ClipButton onClick={handleExport} disabled={isLoading} variant="cyan" className="w-full">
-                    {isLoading ? 'Exporting...' : 'Download Full Pack (.zip)'}
-                  </ClipButton>
+                  {exportProgress ? (
+                    <div>
+                      <div className="flex justify-between text-xs text-brand-cyan mb-1">
+                        <span className="truncate pr-4">
+                          {exportProgress.phase === 'collecting' ? 'Gathering' : 'Writing'} {exportProgress.currentFile || ''}
+                        </span>
+                        <span>{Math.round(exportProgress.percent)}%</span>
+                      </div>
+                      <div className="w-full h-3 bg-black/40 overflow-hidden">
+                        <div 
+                          className="h-full bg-brand-cyan transition-all duration-200"
+                          style={{ width: `${exportProgress.percent}%` }}
+                        />
+                      </div>
+                    </div>
+                  ) : (
+                    <ClipButton onClick={() => handleExport()} disabled={isLoading} variant="cyan" className="w-full">
+                      {isLoading ? 'Exporting...' : 'Download Full Pack (.zip)'}
+                    </ClipButton>
+                  )}
                 </div>
 
                 <div 
@@ -673,3 +1312,579 @@ const Input: React.FC<{
     </div>
   );
 };
+
+const STATUS_STYLES: Record<ImportItemStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-500/20 text-green-300' },
+  changed: { label: 'Changed', className: 'bg-brand-cyan/20 text-brand-cyan' },
+  unchanged: { label: 'Unchanged', className: 'bg-white/10 text-gray-400' },
+  conflict: { label: 'Conflict', className: 'bg-brand-gold/20 text-brand-gold' },
+  broken: { label: 'Broken', className: 'bg-red-500/20 text-red-300' },
+};
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite',
+  'keep-both': 'Keep Both',
+};
+
+const ImportPreviewPanel: React.FC<{
+  preview: ImportPreview;
+  resolutions: Record<string, ConflictResolution>;
+  onResolve: (id: string, resolution: ConflictResolution) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isLoading: boolean;
+}> = ({ preview, resolutions, onResolve, onConfirm, onCancel, isLoading }) => {
+  const counts = preview.items.reduce((acc, entry) => {
+    acc[entry.status] = (acc[entry.status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<ImportItemStatus, number>>);
+
+  return (
+    <div 
+        className="bg-white/5 border border-brand-gold/40 p-6"
+        style={{ clipPath: "polygon(12px 0, 100% 0, 100% calc(100% - 12px), calc(100% - 12px) 100%, 0 100%, 0 12px)" }}
+    >
+      <h3 className="text-xl font-bold mb-1">Import Preview</h3>
+      <p className="text-gray-400 text-sm mb-4">
+        <strong className="text-white">{preview.fileName}</strong> &middot; {preview.items.length} items into {preview.packs.map(p => p.name).join(', ') || 'existing packs'}
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(STATUS_STYLES) as ImportItemStatus[]).filter(status => counts[status]).map(status => (
+          <span key={status} className={`text-xs font-bold uppercase px-3 py-1 ${STATUS_STYLES[status].className}`}>
+            {counts[status]} {STATUS_STYLES[status].label}
+          </span>
+        ))}
+      </div>
+
+      <div className="max-h-[400px] overflow-y-auto custom-scrollbar space-y-2 mb-6 pr-2">
+        {preview.items.map((entry, index) => {
+          const canResolve = entry.status === 'conflict' || entry.status === 'changed';
+          const resolution = resolutions[entry.item.id] || (canResolve ? DEFAULT_RESOLUTIONS[entry.status as 'changed' | 'conflict'] : undefined);
+
+          return (
+            <div key={`${entry.item.id}-${index}`} className="flex flex-col md:flex-row md:items-center gap-3 bg-black/20 p-3">
+              <span className={`text-[10px] font-bold uppercase px-2 py-1 w-24 text-center shrink-0 ${STATUS_STYLES[entry.status].className}`}>
+                {STATUS_STYLES[entry.status].label}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-sm truncate">{entry.item.title || entry.item.id || 'Untitled'}</p>
+                {entry.status === 'conflict' && entry.existing && (
+                  <p className="text-xs text-brand-gold/80 truncate">Same id as "{entry.existing.title}" in another pack</p>
+                )}
+                {entry.problems.length > 0 && (
+                  <p className="text-xs text-red-300 truncate" title={entry.problems.join('; ')}>{entry.problems.join('; ')}</p>
+                )}
+              </div>
+              {canResolve && (
+                <div className="flex gap-1 shrink-0">
+                  {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(option => (
+                    <SmallClipButton 
+                      key={option}
+                      active={resolution === option}
+                      onClick={() => onResolve(entry.item.id, option)}
+                      className="text-xs px-3"
+                    >
+                      {RESOLUTION_LABELS[option]}
+                    </SmallClipButton>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-4">
+        <ClipButton onClick={onConfirm} variant="gold" disabled={isLoading} className="flex-1">
+          <Check className="w-5 h-5" /> {isLoading ? 'Importing...' : 'Import'}
+        </ClipButton>
+        <ClipButton onClick={onCancel} variant="red" disabled={isLoading} className="flex-1">
+          <X className="w-5 h-5" /> Cancel
+        </ClipButton>
+      </div>
+    </div>
+  );
+};
+
+const ImportReportPanel: React.FC<{ report: ImportReport; onDismiss: () => void }> = ({ report, onDismiss }) => (
+  <div 
+      className="bg-white/5 border border-brand-cyan/40 p-6"
+      style={{ clipPath: "polygon(12px 0, 100% 0, 100% calc(100% - 12px), calc(100% - 12px) 100%, 0 100%, 0 12px)" }}
+  >
+    <div className="flex items-center justify-between mb-4">
+      <h3 className="text-xl font-bold">Import Report</h3>
+      <button onClick={onDismiss} className="hover:opacity-70"><X className="w-5 h-5" /></button>
+    </div>
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
+      {[
+        { label: 'Imported', value: report.imported },
+        { label: 'Overwritten', value: report.overwritten },
+        { label: 'Kept Both', value: report.duplicated },
+        { label: 'Skipped', value: report.skipped + report.unchanged },
+        { label: 'Failed', value: report.failed.length },
+      ].map(stat => (
+        <div key={stat.label} className="bg-black/20 p-3 text-center">
+          <div className="text-2xl font-bold text-white">{stat.value}</div>
+          <div className="text-xs uppercase tracking-wider text-brand-cyan">{stat.label}</div>
+        </div>
+      ))}
+    </div>
+    {report.failed.length > 0 && (
+      <ul className="space-y-1 text-sm">
+        {report.failed.map((failure, index) => (
+          <li key={index} className="text-red-300">
+            <strong>{failure.title}:</strong> {failure.reason}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const NearDuplicatePanel: React.FC<{
+  groups: MediaItem[][];
+  getPackName: (packId?: string) => string | undefined;
+  onKeep: (keep: MediaItem, group: MediaItem[]) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}> = ({ groups, getPackName, onKeep, onDelete, onClose }) => (
+  <div 
+      className="mb-6 bg-white/5 border border-brand-gold/40 p-6"
+      style={{ clipPath: "polygon(12px 0, 100% 0, 100% calc(100% - 12px), calc(100% - 12px) 100%, 0 100%, 0 12px)" }}
+  >
+    <div className="flex items-center justify-between mb-1">
+      <h3 className="text-xl font-bold">Near-Duplicates</h3>
+      <button onClick={onClose} className="hover:opacity-70"><X className="w-5 h-5" /></button>
+    </div>
+    <p className="text-gray-400 text-sm mb-4">
+      {groups.length === 0
+        ? 'No resized or recompressed copies found.'
+        : `${groups.length} group(s) of images that look alike. Keep one copy to delete the rest, or delete copies individually.`}
+    </p>
+
+    <div className="space-y-4 max-h-[500px] overflow-y-auto custom-scrollbar pr-2">
+      {groups.map(group => (
+        <div key={group[0].id} className="flex gap-3 overflow-x-auto bg-black/20 p-3">
+          {group.map((item, index) => (
+            <div key={item.id} className="w-40 shrink-0">
+              <div className="relative aspect-square bg-white/5 overflow-hidden mb-2">
+                <MediaDisplay item={item} autoPlay={false} objectFit="cover" className="w-full h-full" thumbnail />
+                <span 
+                  className={`absolute top-1 left-1 text-[10px] px-2 py-0.5 font-bold uppercase ${item.isReal ? 'bg-brand-cyan/90 text-brand-navy' : 'bg-brand-red/90 text-white'}`}
+                >
+                  {item.isReal ? 'Real' : 'AI'}
+                </span>
+              </div>
+              <p className="font-bold text-sm truncate" title={item.title}>{item.title}</p>
+              <p className="text-[10px] text-brand-cyan/80 truncate uppercase tracking-wider">{getPackName(item.packId) || (item.isCustom ? 'Custom' : 'Built-in')}</p>
+              {index > 0 && (
+                <p className="text-[10px] text-gray-400">{hammingDistance(group[0].perceptualHash!, item.perceptualHash!)} bits from first</p>
+              )}
+              <div className="flex gap-1 mt-2">
+                <SmallClipButton onClick={() => onKeep(item, group)} className="text-xs px-3 flex-1">Keep</SmallClipButton>
+                {item.isCustom && item.packId !== LOCAL_PACK_ID && (
+                  <SmallClipButton onClick={() => onDelete(item.id)} variant="red" className="text-xs px-3">
+                    <Trash2 className="w-3 h-3" />
+                  </SmallClipButton>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// Largest items first, this many at most
+const STORAGE_LIST_LIMIT = 25;
+
+const StoragePanel: React.FC<{
+  estimate: StorageEstimate | null;
+  usage: StorageUsage | null;
+  items: MediaItem[];
+  packs: GamePack[];
+  onPersist: () => void;
+  onDelete: (ids: string[]) => void;
+  onRecompress: (ids: string[]) => void;
+  isLoading: boolean;
+}> = ({ estimate, usage, items, packs, onPersist, onDelete, onRecompress, isLoading }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const largest = usage
+    ? items.filter(item => usage.items[item.id]).sort((a, b) => usage.items[b.id] - usage.items[a.id]).slice(0, STORAGE_LIST_LIMIT)
+    : [];
+  const usedPercent = estimate?.supported && estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+
+  const toggle = (id: string) => setSelected(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  const runOnSelected = (action: (ids: string[]) => void) => {
+    action(selected);
+    setSelected([]);
+  };
+
+  return (
+    <div 
+        className="bg-white/5 border border-white/10 p-6"
+        style={{ clipPath: "polygon(12px 0, 100% 0, 100% calc(100% - 12px), calc(100% - 12px) 100%, 0 100%, 0 12px)" }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold flex items-center gap-2"><HardDrive className="w-5 h-5 text-brand-cyan" /> Storage</h3>
+        {estimate?.supported && (estimate.persisted ? (
+          <span className="text-xs font-bold uppercase text-green-300 flex items-center gap-1"><ShieldCheck className="w-4 h-4" /> Persistent</span>
+        ) : (
+          <SmallClipButton onClick={onPersist} variant="gold" className="text-xs">
+            <ShieldCheck className="w-4 h-4" /> Request Persistent Storage
+          </SmallClipButton>
+        ))}
+      </div>
+
+      {estimate?.supported ? (
+        <div className="mb-6">
+          <div className="flex justify-between text-xs text-brand-cyan mb-1">
+            <span>{formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} used</span>
+            <span>{usedPercent.toFixed(1)}%</span>
+          </div>
+          <div className="w-full h-3 bg-black/40 overflow-hidden">
+            <div 
+              className={`h-full transition-all duration-200 ${usedPercent > 80 ? 'bg-brand-red' : 'bg-brand-cyan'}`}
+              style={{ width: `${usedPercent}%` }}
+            />
+          </div>
+          {!estimate.persisted && (
+            <p className="text-xs text-gray-400 mt-2">Storage isn't persistent, so the browser may clear uploaded media when the disk is low.</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 mb-6">This browser doesn't report storage usage.</p>
+      )}
+
+      {usage && (
+        <>
+          <h4 className="text-sm font-bold uppercase tracking-wider text-brand-cyan mb-2">By Pack ({formatBytes(usage.total)} media)</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2 mb-6">
+            {packs.filter(pack => usage.packs[pack.id]).map(pack => (
+              <div key={pack.id} className="flex justify-between bg-black/20 px-3 py-2 text-sm">
+                <span className="truncate pr-2">{pack.name}</span>
+                <span className="text-gray-400 shrink-0">{formatBytes(usage.packs[pack.id])}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <h4 className="text-sm font-bold uppercase tracking-wider text-brand-cyan">Largest Items</h4>
+            <div className="flex gap-2">
+              <SmallClipButton onClick={() => runOnSelected(onRecompress)} disabled={isLoading || selected.length === 0} className="text-xs">
+                <Minimize2 className="w-4 h-4" /> Recompress ({selected.length})
+              </SmallClipButton>
+              <SmallClipButton onClick={() => runOnSelected(onDelete)} disabled={isLoading || selected.length === 0} variant="red" className="text-xs">
+                <Trash2 className="w-4 h-4" /> Delete ({selected.length})
+              </SmallClipButton>
+            </div>
+          </div>
+          {largest.length === 0 ? (
+            <p className="text-sm text-gray-400">No uploaded media stored yet.</p>
+          ) : (
+            <div className="max-h-[320px] overflow-y-auto custom-scrollbar space-y-1 pr-2">
+              {largest.map(item => (
+                <button 
+                  key={item.id}
+                  onClick={() => toggle(item.id)}
+                  className="w-full flex items-center gap-3 bg-black/20 hover:bg-black/40 px-3 py-2 text-left text-sm"
+                >
+                  {selected.includes(item.id) ? <CheckSquare className="w-4 h-4 text-brand-gold shrink-0" /> : <Square className="w-4 h-4 text-gray-400 shrink-0" />}
+                  <span className="flex-1 truncate">{item.title}</span>
+                  <span className="text-[10px] uppercase text-gray-400 shrink-0">{item.type}</span>
+                  <span className="w-20 text-right text-gray-300 shrink-0">{formatBytes(usage.items[item.id])}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+// Anything smaller is almost certainly a typo
+const MIN_IMAGE_DIMENSION = 256;
+
+const ImageSettingsPanel: React.FC<{
+  settings: ImageProcessingSettings;
+  onSave: (settings: ImageProcessingSettings) => void;
+}> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState(settings);
+  useEffect(() => setDraft(settings), [settings]);
+
+  return (
+    <div 
+        className="bg-white/5 border border-white/10 p-6"
+        style={{ clipPath: "polygon(12px 0, 100% 0, 100% calc(100% - 12px), calc(100% - 12px) 100%, 0 100%, 0 12px)" }}
+    >
+      <h3 className="text-xl font-bold mb-1 flex items-center gap-2"><Minimize2 className="w-5 h-5 text-brand-cyan" /> Upload Processing</h3>
+      <p className="text-gray-400 text-sm mb-4">
+        Images are resized and re-encoded in the browser before they are stored. Also used by Recompress above.
+        Items marked "Preserve original file" are never changed.
+      </p>
+
+      <label className="flex items-center gap-2 mb-4 cursor-pointer">
+        <input 
+          type="checkbox" 
+          className="accent-brand-gold"
+          checked={draft.enabled}
+          onChange={e => setDraft({ ...draft, enabled: e.target.checked })}
+        />
+        <span className="font-medium">Optimize images on upload</span>
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <Input 
+          label="Max Dimension (px)" 
+          type="number"
+          value={draft.maxDimension ? String(draft.maxDimension) : ''} 
+          onChange={v => setDraft({ ...draft, maxDimension: parseInt(v, 10) || 0 })} 
+        />
+        <div>
+          <label className="block text-sm font-medium text-brand-cyan mb-1">Quality ({Math.round(draft.quality * 100)}%)</label>
+          <input 
+            type="range" 
+            min={0.4} 
+            max={1} 
+            step={0.05}
+            value={draft.quality}
+            onChange={e => setDraft({ ...draft, quality: parseFloat(e.target.value) })}
+            className="w-full h-14 accent-brand-cyan"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-brand-cyan mb-1">Format</label>
+          <select 
+            className="w-full h-14 bg-black/40 border-2 border-brand-cyan/30 px-4 text-white focus:border-brand-gold outline-none font-medium"
+            style={{ clipPath: "polygon(8px 0, 100% 0, 100% calc(100% - 8px), calc(100% - 8px) 100%, 0 100%, 0 8px)" }}
+            value={draft.format}
+            onChange={e => setDraft({ ...draft, format: e.target.value as ImageOutputFormat })}
+          >
+            <option value="image/webp" className="bg-brand-navy">WebP</option>
+            <option value="image/jpeg" className="bg-brand-navy">JPEG</option>
+          </select>
+        </div>
+      </div>
+
+      <SmallClipButton onClick={() => onSave({ ...draft, maxDimension: Math.max(MIN_IMAGE_DIMENSION, draft.maxDimension || DEFAULT_IMAGE_SETTINGS.maxDimension) })} variant="gold">
+        <Save className="w-4 h-4" /> Save Settings
+      </SmallClipButton>
+    </div>
+  );
+};
+
+// Game durations offered on the Welcome screen, each can have its own speed bonus
+const SCORED_DURATIONS = [30, 60];
+
+const ScoringPanel: React.FC<{
+  config: ScoringConfig;
+  packs: GamePack[];
+  onSave: (config: ScoringConfig) => void;
+}> = ({ config, packs, onSave }) => {
+  const [draft, setDraft] = useState(config);
+  useEffect(() => setDraft(config), [config]);
+
+  const overridingPacks = packs.filter(pack => pack.scoring && Object.keys(pack.scoring).length > 0);
+
+  const numberField = (label: string, key: Exclude<keyof ScoringConfig, 'speedBonus'>) => (
+    <Input 
+      label={label} 
+      type="number"
+      value={String(draft[key])} 
+      onChange={v => setDraft({ ...draft, [key]: parseInt(v, 10) || 0 })} 
+    />
+  );
+
+  // Edited in seconds, stored in milliseconds. A mode without a curve shows as 0 points.
+  const speedCurve = (duration: number): SpeedBonusCurve =>
+    draft.speedBonus[duration] || { maxPoints: 0, fullBonusMs: 2000, noBonusMs: 6000 };
+  const setSpeedCurve = (duration: number, changes: Partial<SpeedBonusCurve>) =>
+    setDraft({ ...draft, speedBonus: { ...draft.speedBonus, [duration]: { ...speedCurve(duration), ...changes } } });
+
+  return (
+    <div 
+        className="bg-white/5 border border-white/10 p-6"
+        style={{ clipPath: "polygon(12px 0, 100% 0, 100% calc(100% - 12px), calc(100% - 12px) 100%, 0 100%, 0 12px)" }}
+    >
+      <h3 className="text-xl font-bold mb-1 flex items-center gap-2"><Trophy className="w-5 h-5 text-brand-gold" /> Scoring Rules</h3>
+      <p className="text-gray-400 text-sm mb-4">
+        Used for every game. A Game Pack can ship its own rules in its manifest: in games that include the pack, the fields it sets override these and the rest keep these values. Where several packs set the same field, the last pack in the list wins.
+      </p>
+      {overridingPacks.length > 0 && (
+        <p className="text-brand-gold text-sm mb-4">
+          Packs with their own rules: {overridingPacks.map(pack => pack.name).join(', ')}
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        {numberField('Points per Answer', 'basePoints')}
+        {numberField('Bonus Round Points', 'bonusPoints')}
+        {numberField('Bonus Round Streak', 'bonusRoundQualifier')}
+        <div />
+        {numberField('Streak Length', 'streakThreshold')}
+        {numberField('Streak Multiplier', 'streakMultiplier')}
+        {numberField('Mega Streak Length', 'megaStreakThreshold')}
+        {numberField('Mega Multiplier', 'megaStreakMultiplier')}
+      </div>
+
+      <h4 className="text-sm font-bold uppercase tracking-widest text-brand-cyan mb-2">Speed Bonus</h4>
+      <p className="text-gray-400 text-xs mb-3">
+        Full bonus for answers within the first window, shrinking to nothing at the second. Set points to 0 to turn it off for a mode.
+      </p>
+      {SCORED_DURATIONS.map(duration => {
+        const curve = speedCurve(duration);
+        return (
+          <div key={duration} className="grid grid-cols-[4rem_1fr_1fr_1fr] gap-4 items-end mb-3">
+            <span className="font-digital text-lg text-white pb-4">{duration}s</span>
+            <Input 
+              label="Max Points" 
+              type="number"
+              value={String(curve.maxPoints)} 
+              onChange={v => setSpeedCurve(duration, { maxPoints: parseInt(v, 10) || 0 })} 
+            />
+            <Input 
+              label="Full Bonus Within (s)" 
+              type="number"
+              value={String(curve.fullBonusMs / 1000)} 
+              onChange={v => setSpeedCurve(duration, { fullBonusMs: Math.round((parseFloat(v) || 0) * 1000) })} 
+            />
+            <Input 
+              label="No Bonus After (s)" 
+              type="number"
+              value={String(curve.noBonusMs / 1000)} 
+              onChange={v => setSpeedCurve(duration, { noBonusMs: Math.round((parseFloat(v) || 0) * 1000) })} 
+            />
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2 mt-4">
+        <SmallClipButton onClick={() => onSave(applyScoringOverrides({ ...DEFAULT_SCORING_CONFIG, speedBonus: {} }, draft))} variant="gold">
+          <Save className="w-4 h-4" /> Save Rules
+        </SmallClipButton>
+        <SmallClipButton onClick={() => setDraft(DEFAULT_SCORING_CONFIG)}>
+          Reset to Defaults
+        </SmallClipButton>
+      </div>
+    </div>
+  );
+};
+
+const RoundBalancePanel: React.FC<{
+  config: SamplingConfig;
+  onSave: (config: SamplingConfig) => void;
+}> = ({ config, onSave }) => {
+  const [draft, setDraft] = useState(config);
+  useEffect(() => setDraft(config), [config]);
+
+  return (
+    <div 
+        className="bg-white/5 border border-white/10 p-6"
+        style={{ clipPath: "polygon(12px 0, 100% 0, 100% calc(100% - 12px), calc(100% - 12px) 100%, 0 100%, 0 12px)" }}
+    >
+      <h3 className="text-xl font-bold mb-1 flex items-center gap-2"><Scale className="w-5 h-5 text-brand-cyan" /> Round Balance</h3>
+      <p className="text-gray-400 text-sm mb-4">
+        How games mix real and AI items, so players can't score by always guessing the same side.
+        Kiosks sharing challenge codes need the same settings here.
+      </p>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-brand-cyan mb-1">
+          Real Items ({Math.round(draft.realRatio * 100)}%) / AI Items ({100 - Math.round(draft.realRatio * 100)}%)
+        </label>
+        <input 
+          type="range" 
+          min={0.2} 
+          max={0.8} 
+          step={0.05}
+          value={draft.realRatio}
+          onChange={e => setDraft({ ...draft, realRatio: parseFloat(e.target.value) })}
+          className="w-full h-10 accent-brand-cyan"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 mb-4 cursor-pointer">
+        <input 
+          type="checkbox" 
+          className="accent-brand-gold"
+          checked={draft.spreadCategories}
+          onChange={e => setDraft({ ...draft, spreadCategories: e.target.checked })}
+        />
+        <span className="font-medium">Spread categories evenly and never show the same category twice in a row</span>
+      </label>
+
+      <SmallClipButton onClick={() => onSave(draft)} variant="gold">
+        <Save className="w-4 h-4" /> Save Balance
+      </SmallClipButton>
+    </div>
+  );
+};
+
+// Label for the editor's "not set" difficulty option
+const describeEstimate = (stats?: ItemStats) => {
+  const estimate = estimateDifficulty(stats);
+  if (estimate === null) {
+    return `Auto (medium until answered ${MIN_ANSWERS_FOR_ESTIMATE} times, ${stats?.answered || 0} so far)`;
+  }
+  return `Auto (${DIFFICULTY_LABELS[estimate]}, ${Math.round(stats!.correct / stats!.answered * 100)}% of ${stats!.answered} answers correct)`;
+};
+
+const DifficultyPanel: React.FC<{
+  config: DifficultyConfig;
+  onSave: (config: DifficultyConfig) => void;
+}> = ({ config, onSave }) => {
+  const [draft, setDraft] = useState(config);
+  useEffect(() => setDraft(config), [config]);
+
+  return (
+    <div 
+        className="bg-white/5 border border-white/10 p-6"
+        style={{ clipPath: "polygon(12px 0, 100% 0, 100% calc(100% - 12px), calc(100% - 12px) 100%, 0 100%, 0 12px)" }}
+    >
+      <h3 className="text-xl font-bold mb-1 flex items-center gap-2"><Gauge className="w-5 h-5 text-brand-cyan" /> Difficulty</h3>
+      <p className="text-gray-400 text-sm mb-4">
+        Items without a difficulty set in the editor are rated from how often players get them right,
+        once they have been answered {MIN_ANSWERS_FOR_ESTIMATE} times.
+      </p>
+
+      <label className="flex items-center gap-2 mb-4 cursor-pointer">
+        <input 
+          type="checkbox" 
+          className="accent-brand-gold"
+          checked={draft.adaptive}
+          onChange={e => setDraft({ ...draft, adaptive: e.target.checked })}
+        />
+        <span className="font-medium">Adaptive mode: start on easy items and get harder with every streak, easier after a miss</span>
+      </label>
+      <p className="text-gray-500 text-xs mb-4">Challenge code games always play in the shared order.</p>
+
+      <SmallClipButton onClick={() => onSave(draft)} variant="gold">
+        <Save className="w-4 h-4" /> Save Difficulty
+      </SmallClipButton>
+    </div>
+  );
+};
+
+// Play stats for a Manage card
+const ItemStatsLine: React.FC<{ stats?: ItemStats }> = ({ stats }) => {
+  const summary = summarizeItemStats(stats);
+  if (summary.shown === 0) return <p className="text-[10px] text-gray-500 mb-1.5">Not played yet</p>;
+
+  const percent = (rate: number | null) => (rate === null ? '-' : `${Math.round(rate * 100)}%`);
+  return (
+    <p 
+      className="text-[10px] text-gray-300 mb-1.5 flex flex-wrap gap-x-2 font-mono"
+      title={`Shown ${summary.shown} times, answered ${summary.answered}. ${percent(summary.accuracy)} correct, ${percent(summary.guessedRealRate)} guessed real.`}
+    >
+      <span>{summary.shown}x</span>
+      <span className="text-brand-gold">{percent(summary.accuracy)} ok</span>
+      <span>{summary.averageTimeMs === null ? '-' : formatDecisionTime(summary.averageTimeMs)}</span>
+      <span className="text-brand-cyan">{percent(summary.guessedRealRate)} real</span>
+    </p>
+  );
+};
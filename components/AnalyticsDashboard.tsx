@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ChartColumn, FileSpreadsheet, FileBraces, Users, Trophy, Target, Gift, CalendarRange } from 'lucide-react';
+import { MediaItem } from '../types';
+import { SessionManager, GameSession } from '../utils/db';
+import { AccuracyGroup, DailyCount, dayKey, parseDayKey, summarizeSessions, sessionsPerDay, accuracyBy, sessionsToCsv, itemStatsToCsv } from '../utils/analytics';
+import { collectItemStats } from '../utils/itemStats';
+
+interface AnalyticsDashboardProps {
+  items: MediaItem[]; // For item titles in the per-item export
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const PRESETS: { label: string; days: number | null }[] = [
+  { label: '7 Days', days: 7 },
+  { label: '30 Days', days: 30 },
+  { label: '90 Days', days: 90 },
+  { label: 'All Time', days: null },
+];
+
+const panelStyle = { clipPath: "polygon(12px 0, 100% 0, 100% calc(100% - 12px), calc(100% - 12px) 100%, 0 100%, 0 12px)" };
+
+const percent = (rate: number | null) => (rate === null ? '-' : `${Math.round(rate * 100)}%`);
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const RangeButton: React.FC<{ active?: boolean; onClick: () => void; children?: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    onClick={onClick}
+    className={`px-4 h-10 text-sm font-bold uppercase tracking-wider border transition-colors ${active ? 'bg-brand-cyan text-brand-navy border-brand-cyan' : 'bg-black/20 text-brand-cyan border-brand-cyan/30 hover:border-brand-cyan'}`}
+    style={{ clipPath: "polygon(6px 0, 100% 0, 100% calc(100% - 6px), calc(100% - 6px) 100%, 0 100%, 0 6px)" }}
+  >
+    {children}
+  </button>
+);
+
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ items }) => {
+  // Empty means unbounded on that side
+  const [fromDay, setFromDay] = useState(() => dayKey(Date.now() - 29 * MS_PER_DAY));
+  const [toDay, setToDay] = useState(() => dayKey(Date.now()));
+  const [sessions, setSessions] = useState<GameSession[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+
+  const from = parseDayKey(fromDay) ?? undefined;
+  const toStart = parseDayKey(toDay);
+  const to = toStart === null ? undefined : toStart + MS_PER_DAY - 1;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(false);
+    SessionManager.getSessions(from, to)
+      .then(loaded => { if (!cancelled) setSessions(loaded); })
+      .catch(err => {
+        console.error("Failed to load sessions", err);
+        if (!cancelled) setLoadError(true);
+      });
+    return () => { cancelled = true; };
+  }, [from, to]);
+
+  const report = useMemo(() => {
+    if (!sessions) return null;
+    const chartFrom = from ?? sessions[0]?.endedAt ?? Date.now();
+    const chartTo = to ?? Math.max(Date.now(), sessions[sessions.length - 1]?.endedAt ?? 0);
+    return {
+      summary: summarizeSessions(sessions),
+      days: sessionsPerDay(sessions, chartFrom, chartTo),
+      byCategory: accuracyBy(sessions, 'category'),
+      byModel: accuracyBy(sessions, 'aiModel'),
+    };
+  }, [sessions, from, to]);
+
+  const applyPreset = (days: number | null) => {
+    setFromDay(days === null ? '' : dayKey(Date.now() - (days - 1) * MS_PER_DAY));
+    setToDay(dayKey(Date.now()));
+  };
+  const activePreset = toDay === dayKey(Date.now())
+    ? PRESETS.find(preset => (preset.days === null ? fromDay === '' : fromDay === dayKey(Date.now() - (preset.days - 1) * MS_PER_DAY)))
+    : undefined;
+
+  const exportName = (kind: string, extension: string) => `real-or-ai-${kind}-${fromDay || 'start'}-to-${toDay || 'now'}.${extension}`;
+  const exportJson = () => {
+    if (!sessions) return;
+    const itemStats = Array.from(collectItemStats(sessions.flatMap(session => session.events)).values());
+    downloadFile(exportName('analytics', 'json'), JSON.stringify({ exportedAt: new Date().toISOString(), from: fromDay || null, to: toDay || null, sessions, itemStats }, null, 2), 'application/json');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Range & Export */}
+      <div className="bg-white/5 border border-white/10 p-6 flex flex-wrap items-end gap-4" style={panelStyle}>
+        <div className="flex items-center gap-2 flex-wrap">
+          <CalendarRange className="w-5 h-5 text-brand-cyan" />
+          {PRESETS.map(preset => (
+            <RangeButton key={preset.label} active={activePreset === preset} onClick={() => applyPreset(preset.days)}>{preset.label}</RangeButton>
+          ))}
+        </div>
+        <label className="text-sm text-brand-cyan">
+          From
+          <input type="date" value={fromDay} max={toDay || undefined} onChange={e => setFromDay(e.target.value)} className="block h-10 bg-black/40 border border-brand-cyan/30 px-2 text-white [color-scheme:dark]" />
+        </label>
+        <label className="text-sm text-brand-cyan">
+          To
+          <input type="date" value={toDay} min={fromDay || undefined} onChange={e => setToDay(e.target.value)} className="block h-10 bg-black/40 border border-brand-cyan/30 px-2 text-white [color-scheme:dark]" />
+        </label>
+        <div className="flex gap-2 ml-auto flex-wrap">
+          <RangeButton onClick={() => sessions && downloadFile(exportName('sessions', 'csv'), sessionsToCsv(sessions), 'text/csv')}>
+            <span className="flex items-center gap-2"><FileSpreadsheet className="w-4 h-4" /> Sessions CSV</span>
+          </RangeButton>
+          <RangeButton onClick={() => sessions && downloadFile(exportName('item-stats', 'csv'), itemStatsToCsv(sessions, items), 'text/csv')}>
+            <span className="flex items-center gap-2"><FileSpreadsheet className="w-4 h-4" /> Item Stats CSV</span>
+          </RangeButton>
+          <RangeButton onClick={exportJson}>
+            <span className="flex items-center gap-2"><FileBraces className="w-4 h-4" /> JSON</span>
+          </RangeButton>
+        </div>
+      </div>
+
+      {loadError && <p className="text-brand-red">Couldn't load the session history.</p>}
+      {!report && !loadError && <p className="text-gray-400">Loading sessions...</p>}
+
+      {report && (
+        <>
+          {/* Headline Figures */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatTile icon={<Users className="w-5 h-5" />} label="Sessions" value={String(report.summary.sessions)} />
+            <StatTile icon={<Trophy className="w-5 h-5" />} label="Avg. Score" value={report.summary.averageScore === null ? '-' : String(Math.round(report.summary.averageScore))} />
+            <StatTile icon={<Target className="w-5 h-5" />} label="Accuracy" value={percent(report.summary.accuracy)} detail={`${report.summary.answers} answers`} />
+            <StatTile icon={<Gift className="w-5 h-5" />} label="Bonus Success" value={percent(report.summary.bonusSuccessRate)} detail={`${report.summary.bonusWins} of ${report.summary.bonusRounds} rounds`} />
+          </div>
+
+          <div className="bg-white/5 border border-white/10 p-6" style={panelStyle}>
+            <h3 className="text-xl font-bold mb-4 flex items-center gap-2"><ChartColumn className="w-5 h-5 text-brand-cyan" /> Sessions per Day</h3>
+            <DailyChart days={report.days} />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white/5 border border-white/10 p-6" style={panelStyle}>
+              <h3 className="text-xl font-bold mb-4">Accuracy by Category</h3>
+              <AccuracyBars groups={report.byCategory} />
+            </div>
+            <div className="bg-white/5 border border-white/10 p-6" style={panelStyle}>
+              <h3 className="text-xl font-bold mb-4">Accuracy by AI Model</h3>
+              <AccuracyBars groups={report.byModel} />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const StatTile = ({ icon, label, value, detail }: { icon: React.ReactNode; label: string; value: string; detail?: string }) => (
+  <div className="bg-white/5 border border-white/10 p-4" style={panelStyle}>
+    <div className="flex items-center gap-2 text-brand-cyan text-xs font-bold uppercase tracking-wider">{icon} {label}</div>
+    <div className="text-4xl font-digital font-black text-white mt-2">{value}</div>
+    {detail && <div className="text-xs text-gray-400 mt-1">{detail}</div>}
+  </div>
+);
+
+// Sessions as columns, with the day's average score as a line over them
+const DailyChart = ({ days }: { days: DailyCount[] }) => {
+  if (days.length === 0) return <p className="text-gray-400 text-sm">No days in this range.</p>;
+
+  const width = 800;
+  const height = 220;
+  const pad = { top: 16, right: 48, bottom: 28, left: 36 };
+  const plotWidth = width - pad.left - pad.right;
+  const plotHeight = height - pad.top - pad.bottom;
+  const maxSessions = Math.max(1, ...days.map(day => day.sessions));
+  const maxScore = Math.max(1, ...days.map(day => day.averageScore ?? 0));
+  const slot = plotWidth / days.length;
+  const x = (index: number) => pad.left + slot * index + slot / 2;
+  const scoreY = (score: number) => pad.top + plotHeight - (score / maxScore) * plotHeight;
+  const scorePoints = days.flatMap((day, index) => (day.averageScore === null ? [] : [`${x(index)},${scoreY(day.averageScore)}`]));
+  // Keep the date labels from running into each other
+  const labelEvery = Math.ceil(days.length / 8);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Sessions and average score per day">
+        <line x1={pad.left} x2={width - pad.right} y1={pad.top + plotHeight} y2={pad.top + plotHeight} stroke="rgba(255,255,255,0.2)" />
+        <text x={pad.left - 6} y={pad.top + 4} textAnchor="end" fontSize="11" fill="#1dbbe5">{maxSessions}</text>
+        <text x={width - pad.right + 6} y={pad.top + 4} fontSize="11" fill="#f0c33b">{Math.round(maxScore)}</text>
+
+        {days.map((day, index) => {
+          const barHeight = (day.sessions / maxSessions) * plotHeight;
+          return (
+            <g key={day.day}>
+              <rect
+                x={x(index) - Math.max(1, slot * 0.35)}
+                width={Math.max(2, slot * 0.7)}
+                y={pad.top + plotHeight - barHeight}
+                height={barHeight}
+                fill="#1dbbe5"
+                opacity={0.8}
+              >
+                <title>{`${day.day}: ${day.sessions} sessions${day.averageScore === null ? '' : `, avg. score ${Math.round(day.averageScore)}`}`}</title>
+              </rect>
+              {index % labelEvery === 0 && (
+                <text x={x(index)} y={height - 8} textAnchor="middle" fontSize="10" fill="rgba(255,255,255,0.6)">{day.day.slice(5)}</text>
+              )}
+            </g>
+          );
+        })}
+
+        {scorePoints.length > 1 && <polyline points={scorePoints.join(' ')} fill="none" stroke="#f0c33b" strokeWidth={2} />}
+        {scorePoints.map(point => {
+          const [cx, cy] = point.split(',');
+          return <circle key={point} cx={cx} cy={cy} r={3} fill="#f0c33b" />;
+        })}
+      </svg>
+      <div className="flex gap-6 text-xs text-gray-400 mt-2">
+        <span className="flex items-center gap-2"><span className="w-3 h-3 bg-brand-cyan inline-block" /> Sessions</span>
+        <span className="flex items-center gap-2"><span className="w-3 h-0.5 bg-brand-gold inline-block" /> Avg. Score</span>
+      </div>
+    </div>
+  );
+};
+
+const AccuracyBars = ({ groups }: { groups: AccuracyGroup[] }) => {
+  if (groups.length === 0) return <p className="text-gray-400 text-sm">No answers in this range.</p>;
+
+  const rowHeight = 28;
+  const labelWidth = 180;
+  const width = 520;
+  const barWidth = width - labelWidth - 90;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${groups.length * rowHeight}`} className="w-full h-auto" role="img" aria-label="Accuracy per group">
+      {groups.map((group, index) => {
+        const y = index * rowHeight;
+        return (
+          <g key={group.label}>
+            <text x={labelWidth - 8} y={y + 18} textAnchor="end" fontSize="12" fill="white">
+              {group.label.length > 24 ? `${group.label.slice(0, 23)}…` : group.label}
+              <title>{group.label}</title>
+            </text>
+            <rect x={labelWidth} y={y + 6} width={barWidth} height={16} fill="rgba(255,255,255,0.08)" />
+            <rect x={labelWidth} y={y + 6} width={barWidth * group.accuracy} height={16} fill={group.accuracy >= 0.5 ? '#1dbbe5' : '#9a281e'}>
+              <title>{`${group.correct} of ${group.answered} correct`}</title>
+            </rect>
+            <text x={labelWidth + barWidth + 8} y={y + 18} fontSize="12" fill="rgba(255,255,255,0.8)">
+              {percent(group.accuracy)} ({group.answered})
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
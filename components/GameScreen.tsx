@@ -1,18 +1,28 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useMemo, useReducer, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Check, X, Flame, Trophy, XCircle as XCircleIcon, Search, Volume2, VolumeX } from 'lucide-react';
-import { MediaItem, UserAnswer, GameDebugConfig } from '../types';
-import { MediaDisplay } from './MediaDisplay';
+import { MediaItem, UserAnswer, GameDebugConfig, ScoringConfig } from '../types';
+import { MediaDisplay, MediaStatus } from './MediaDisplay';
 import { soundManager } from '../utils/SoundManager';
+import { MediaPreloader, PRELOAD_AHEAD } from '../utils/preloader';
+import { Stopwatch } from '../utils/stopwatch';
+import { DEFAULT_SCORING_CONFIG, getStreakMultiplier } from '../utils/scoring';
+import { gameReducer, createGameState, GameEvent, BONUS_ROUND_MS } from '../utils/gameMachine';
+import { createRandom, randomSeed } from '../utils/random';
+import { sampleBonusPair } from '../utils/sampler';
+import { DIFFICULTY_LABELS } from '../utils/difficulty';
 import { toggleMute as toggleMusicMute } from '../utils/music';
 import { Background } from './Background';
 
 interface GameScreenProps {
   items: MediaItem[];
   duration: number;
-  onEndGame: (answers: UserAnswer[]) => void;
+  onEndGame: (answers: UserAnswer[], events: GameEvent[]) => void;
   debugConfig?: GameDebugConfig;
+  scoring?: ScoringConfig;
+  seed?: number;
+  difficulties?: Record<string, number>; // Set for adaptive mode
 }
 
 // --- VISUAL COMPONENTS ---
@@ -169,20 +179,22 @@ const FireworkBurst = () => {
 };
 
 // --- STREAK CHEVRONS ---
-const StreakChevrons = ({ streak }: { streak: number }) => {
-    if (streak < 3) return null;
+// One step at each multiplier threshold, with a gold step halfway between them
+const StreakChevrons = ({ streak, scoring }: { streak: number, scoring: ScoringConfig }) => {
+    if (streak < scoring.streakThreshold) return null;
     
+    const midStep = Math.round((scoring.streakThreshold + scoring.megaStreakThreshold) / 2);
     let count = 0;
     let colorClass = "text-brand-cyan";
     
-    if (streak >= 7) { 
-        count = 7; 
+    if (streak >= scoring.megaStreakThreshold) { 
+        count = scoring.megaStreakThreshold; 
         colorClass = "text-[#ff073a]"; // Neon Red
-    } else if (streak >= 5) { 
-        count = 5; 
+    } else if (streak >= midStep && midStep > scoring.streakThreshold) { 
+        count = midStep; 
         colorClass = "text-brand-gold"; 
     } else { 
-        count = 3; 
+        count = scoring.streakThreshold; 
         colorClass = "text-brand-cyan"; 
     }
 
@@ -326,38 +338,76 @@ const NextButton = ({
     );
 };
 
-export const GameScreen: React.FC<GameScreenProps> = ({ items, duration, onEndGame, debugConfig }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [timeLeft, setTimeLeft] = useState(duration);
-  const [answers, setAnswers] = useState<UserAnswer[]>([]);
-  const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [lastPointsEarned, setLastPointsEarned] = useState(0);
-  
-  const [streak, setStreak] = useState(debugConfig?.initialStreak || 0);
-  const [score, setScore] = useState(0);
+// Sound effects follow the event log rather than the click handlers
+const playEventSound = (event: GameEvent, scoring: ScoringConfig) => {
+  switch (event.type) {
+    case 'answered':
+      if (event.answer.isCorrect) soundManager.playCorrect();
+      else soundManager.playIncorrect();
+      break;
+    case 'streak_changed':
+      if (event.to > event.from && event.to >= scoring.streakThreshold) soundManager.playStreak();
+      break;
+    case 'bonus_started':
+      soundManager.playBonusStart();
+      break;
+    case 'bonus_finished':
+      if (event.result === 'success') soundManager.playBonusSuccess();
+      else soundManager.playBonusFail();
+      break;
+  }
+};
+
+export const GameScreen: React.FC<GameScreenProps> = ({ items, duration, onEndGame, debugConfig, scoring = DEFAULT_SCORING_CONFIG, seed = randomSeed(), difficulties }) => {
+  const [game, dispatch] = useReducer(gameReducer, undefined, () => createGameState({
+    items,
+    duration,
+    scoring,
+    // Picked up front from the game's seed, the reducer doesn't do randomness
+    bonusPair: sampleBonusPair(items, createRandom(seed)),
+    seed,
+    initialStreak: debugConfig?.initialStreak,
+    forceBonusRound: debugConfig?.forceBonusRound,
+    difficulties,
+    startedAt: Date.now(),
+  }));
+  const { phase, currentIndex, timeLeftMs, answers, score, streak, bonus, difficultyLevel } = game;
+  // Adaptive mode can reorder what's still to come, so play from the game's copy
+  const playItems = game.items;
   const [isMuted, setIsMuted] = useState(false);
-  
-  const [earnedBonus, setEarnedBonus] = useState(false);
-  const [showBonusRound, setShowBonusRound] = useState(false);
-  const [bonusTimer, setBonusTimer] = useState(10);
-  const [bonusItems, setBonusItems] = useState<{ real: MediaItem; ai: MediaItem } | null>(null);
-  const [bonusDisplayItems, setBonusDisplayItems] = useState<MediaItem[]>([]); 
-  const [bonusResult, setBonusResult] = useState<'success' | 'fail' | null>(null);
-  const [bonusFeedbackItem, setBonusFeedbackItem] = useState<MediaItem | null>(null);
-
-  const currentItem = items[currentIndex];
+
+  // The clock only runs while the current item is actually on screen. null
+  // between items, while the previous one is still animating out.
+  const [mediaStatus, setMediaStatus] = useState<MediaStatus | null>('loading');
+  const preloaderRef = useRef<MediaPreloader | null>(null);
+  // Recorded with each answer: how long the item was on screen (the decision
+  // time) and how long it spent loading or buffering
+  const visibleWatch = useRef(new Stopwatch()).current;
+  const stallWatch = useRef(new Stopwatch()).current;
+  // The bonus pair (there's only ever one) is timed from when both sides are showing
+  const bonusWatch = useRef(new Stopwatch()).current;
+  const bonusShown = useRef(new Set<string>());
+  const handledEvents = useRef(0);
+
+  const currentItem = playItems[currentIndex];
+  // Item whose MediaDisplay reports count, see updateMediaStatus
+  const statusItemId = useRef(currentItem?.id);
+  const timeLeft = Math.ceil(timeLeftMs / 1000);
+  const isProcessing = phase !== 'playing';
+  const showBonusRound = bonus !== null;
+  const bonusResult = bonus?.result ?? null;
+  const lastAnswer = answers[answers.length - 1];
+  const feedback = phase === 'feedback' && lastAnswer ? (lastAnswer.isCorrect ? 'correct' : 'incorrect') : null;
+  const lastPoints = lastAnswer?.isCorrect && lastAnswer.points ? lastAnswer.points : null;
+  // Broken media won't get any better, so it doesn't hold the clock
+  const isMediaVisible = mediaStatus === 'ready' || mediaStatus === 'error';
   const correctCount = answers.filter(a => a.isCorrect).length;
   
-  const BASE_POINTS = 100;
-  const BONUS_POINTS = 1000;
-  const STREAK_THRESHOLD = 3;
-  const MEGA_STREAK_THRESHOLD = 7;
   const FIREWORK_THRESHOLD = 5;
-  const BONUS_ROUND_QUALIFIER = 5;
+  const CLOCK_TICK_MS = 100;
 
-  const isStreakActive = streak >= STREAK_THRESHOLD;
-  const isMegaStreakActive = streak >= MEGA_STREAK_THRESHOLD;
+  const isStreakActive = streak >= scoring.streakThreshold;
+  const isMegaStreakActive = streak >= scoring.megaStreakThreshold;
   const isFireworksActive = streak >= FIREWORK_THRESHOLD;
   
   // Specific clip path for chamfered top-left corner
@@ -366,165 +416,105 @@ export const GameScreen: React.FC<GameScreenProps> = ({ items, duration, onEndGa
   };
 
   useEffect(() => {
-    if (streak >= BONUS_ROUND_QUALIFIER) {
-        if (!earnedBonus) {
-             // Play subtle streak unlock sound
-        }
-        setEarnedBonus(true);
-    }
-  }, [streak, earnedBonus]);
+    game.events.slice(handledEvents.current).forEach(event => playEventSound(event, scoring));
+    handledEvents.current = game.events.length;
+  }, [game.events, scoring]);
 
   useEffect(() => {
-      if (debugConfig?.forceBonusRound) {
-          setEarnedBonus(true);
-      }
-  }, [debugConfig]);
-
-  useEffect(() => {
-    if (showBonusRound) return;
-
-    if (timeLeft <= 0) {
-      if (earnedBonus && !showBonusRound && !bonusResult) {
-          startBonusRound();
-      } else if (!showBonusRound) {
-          onEndGame(answers);
-      }
-      return;
+    if (phase === 'ended') onEndGame(answers, game.events);
+  }, [phase]);
+
+  // Switches the watches over in the same call as the state update, so no
+  // render passes with the previous item's status still in place. The item
+  // on its way out keeps reporting until it unmounts, that's ignored.
+  const updateMediaStatus = useCallback((itemId: string, status: MediaStatus) => {
+    if (itemId !== statusItemId.current) return;
+    setMediaStatus(status);
+    if (status === 'ready' || status === 'error') {
+      stallWatch.stop();
+      visibleWatch.start();
+      dispatch({ type: 'ITEM_SHOWN', at: Date.now() });
+    } else {
+      visibleWatch.stop();
+      stallWatch.start();
     }
+  }, [visibleWatch, stallWatch]);
 
-    const timer = setInterval(() => {
-      setTimeLeft((prev) => prev - 1);
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, [timeLeft, onEndGame, answers, showBonusRound, earnedBonus, bonusResult]);
+  const handleBonusMediaStatus = (itemId: string, status: MediaStatus) => {
+    if (status !== 'ready' && status !== 'error') return;
+    bonusShown.current.add(itemId);
+    if (bonusShown.current.size === 2) bonusWatch.start();
+  };
 
+  // A new item only mounts once the previous one has animated out, and it
+  // reports its own status (and ITEM_SHOWN) from there. Until then neither
+  // the clock nor the watches run. On the first item there's nothing to wait
+  // for, its MediaDisplay has already reported in.
+  useLayoutEffect(() => {
+    if (statusItemId.current === currentItem?.id) return;
+    statusItemId.current = currentItem?.id;
+    visibleWatch.reset();
+    stallWatch.reset();
+    setMediaStatus(null);
+  }, [currentItem?.id]);
+
+  // Keep the next few rounds loading while this one is played
   useEffect(() => {
-    if (!showBonusRound || bonusResult !== null) return;
-
-    if (bonusTimer <= 0) {
-      handleBonusResult('fail');
-      return;
-    }
+    if (!preloaderRef.current) preloaderRef.current = new MediaPreloader();
+    const preloader = preloaderRef.current;
+    const upcoming = playItems.slice(currentIndex, currentIndex + PRELOAD_AHEAD + 1);
+    preloader.retainOnly(upcoming);
+    preloader.preload(upcoming);
+  }, [currentIndex, playItems]);
+
+  useEffect(() => () => preloaderRef.current?.dispose(), []);
+
+  // Counts real elapsed time rather than ticks. The main clock stops while a
+  // slow kiosk is still loading or buffering the current item, the bonus
+  // round clock doesn't.
+  const isClockRunning = phase === 'bonus'
+    ? bonusResult === null
+    : (phase === 'playing' || phase === 'feedback') && isMediaVisible;
 
-    const timer = setInterval(() => {
-      setBonusTimer((prev) => prev - 1);
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, [showBonusRound, bonusTimer, bonusResult]);
-
-  const startBonusRound = () => {
-      soundManager.playBonusStart();
-      const availableReal = items.filter(i => i.isReal);
-      const availableAI = items.filter(i => !i.isReal);
-      
-      const real = availableReal.length > 0 ? availableReal[Math.floor(Math.random() * availableReal.length)] : items[0];
-      const ai = availableAI.length > 0 ? availableAI[Math.floor(Math.random() * availableAI.length)] : items[0];
-      
-      if (real && ai) {
-          setBonusItems({ real, ai });
-          setBonusFeedbackItem(null);
-          setBonusDisplayItems([real, ai].sort(() => Math.random() - 0.5));
-          setBonusTimer(10);
-          setShowBonusRound(true);
-      } else {
-          onEndGame(answers);
-      }
-  };
+  useEffect(() => {
+    if (!isClockRunning) return;
+
+    let last = performance.now();
+    const consume = () => {
+      const now = performance.now();
+      const elapsed = now - last;
+      last = now;
+      dispatch({ type: 'TICK', elapsedMs: elapsed, at: Date.now() });
+    };
+    const timer = setInterval(consume, CLOCK_TICK_MS);
 
-  const handleBonusResult = (result: 'success' | 'fail', bonusAnswer?: UserAnswer) => {
-      setBonusResult(result);
-      
-      if (result === 'success') {
-          soundManager.playBonusSuccess();
-          setScore(prev => prev + BONUS_POINTS);
-      } else {
-          soundManager.playBonusFail();
-      }
+    return () => {
+      clearInterval(timer);
+      consume();
+    };
+  }, [isClockRunning]);
 
-      // Add bonus points/answer immediately
-      if (bonusAnswer) {
-          setAnswers(prev => [...prev, bonusAnswer]);
-      }
-  };
+  // Leave the answer feedback up long enough to read the tip
+  useEffect(() => {
+    if (phase !== 'feedback') return;
+    const timer = setTimeout(() => dispatch({ type: 'NEXT', at: Date.now() }), 1800);
+    return () => clearTimeout(timer);
+  }, [phase, currentIndex]);
 
   const handleBonusAnswer = (selectedItem: MediaItem) => {
-      if (bonusResult !== null) return;
-      
-      setBonusFeedbackItem(selectedItem);
-      const isCorrect = !selectedItem.isReal; 
-
-      const bonusAnswer: UserAnswer = {
-        itemId: selectedItem.id,
-        guessedReal: false, 
-        isCorrect: isCorrect,
-        timeTaken: 0,
-        pointsEarned: isCorrect ? BONUS_POINTS : 0
-      };
-
-      if (isCorrect) {
-          handleBonusResult('success', bonusAnswer);
-      } else {
-          handleBonusResult('fail', bonusAnswer);
-      }
+      dispatch({ type: 'BONUS_ANSWER', itemId: selectedItem.id, timeTaken: Math.round(bonusWatch.lap()), at: Date.now() });
   };
 
-  const handleAnswer = useCallback((guessedReal: boolean) => {
+  const handleAnswer = (guessedReal: boolean) => {
     if (isProcessing) return;
-    setIsProcessing(true);
-
-    const isCorrect = guessedReal === currentItem.isReal;
-    
-    let points = 0;
-    if (isCorrect) {
-        soundManager.playCorrect();
-        const newStreak = streak + 1;
-        
-        let multiplier = 1;
-        if (newStreak >= MEGA_STREAK_THRESHOLD) {
-            multiplier = 4;
-        } else if (newStreak >= STREAK_THRESHOLD) {
-            multiplier = 2;
-        }
-
-        points = BASE_POINTS * multiplier;
-        setScore(prev => prev + points);
-        setStreak(prev => newStreak);
-        setLastPointsEarned(points);
-        
-        if (newStreak >= STREAK_THRESHOLD) {
-             soundManager.playStreak();
-        }
-    } else {
-        soundManager.playIncorrect();
-        setStreak(0);
-        setLastPointsEarned(0);
-    }
-
-    const newAnswer: UserAnswer = {
-      itemId: currentItem.id,
+    dispatch({
+      type: 'ANSWER',
       guessedReal,
-      isCorrect,
-      timeTaken: 0,
-      pointsEarned: points
-    };
-    
-    const updatedAnswers = [...answers, newAnswer];
-    setAnswers(updatedAnswers);
-    setFeedback(isCorrect ? 'correct' : 'incorrect');
-
-    setTimeout(() => {
-      setFeedback(null);
-      setIsProcessing(false);
-      
-      if (currentIndex < items.length - 1) {
-        setCurrentIndex(prev => prev + 1);
-      } else {
-        setTimeLeft(0);
-      }
-    }, 1800); // Increased slightly to let user read tip
-  }, [currentIndex, currentItem, items.length, answers, isProcessing, streak]);
+      timeTaken: Math.round(visibleWatch.lap()),
+      stallTime: Math.round(stallWatch.lap()),
+      at: Date.now(),
+    });
+  };
 
   const handleToggleMute = () => {
       const musicMuted = toggleMusicMute();
@@ -574,8 +564,13 @@ export const GameScreen: React.FC<GameScreenProps> = ({ items, duration, onEndGa
                     0:{timeLeft.toString().padStart(2, '0')}
                 </div>
                 <div className="text-brand-cyan text-sm font-bold uppercase tracking-[0.2em] mt-2">
-                    {showBonusRound ? 'BONUS' : 'TIMER'}
+                    {showBonusRound ? 'BONUS' : isMediaVisible || mediaStatus === null ? 'TIMER' : mediaStatus === 'buffering' ? 'BUFFERING' : 'LOADING'}
                 </div>
+                {difficulties && !showBonusRound && (
+                    <div className="text-brand-gold text-[10px] font-bold uppercase tracking-[0.2em] mt-1">
+                        Level: {DIFFICULTY_LABELS[difficultyLevel]}
+                    </div>
+                )}
              </div>
           </HudPanel>
 
@@ -637,12 +632,12 @@ export const GameScreen: React.FC<GameScreenProps> = ({ items, duration, onEndGa
                                     `}
                                     style={{ clipPath: "polygon(4px 0, 100% 0, 100% calc(100% - 4px), calc(100% - 4px) 100%, 0 100%, 0 4px)" }}
                                 >
-                                    {isMegaStreakActive ? '4X' : '2X'}
+                                    {getStreakMultiplier(scoring, streak)}X
                                 </motion.span>
                              )}
                         </div>
                         
-                        <StreakChevrons streak={streak} />
+                        <StreakChevrons streak={streak} scoring={scoring} />
                     </motion.div>
                 )}
              </AnimatePresence>
@@ -688,7 +683,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ items, duration, onEndGa
                 <div className="relative w-full max-w-5xl h-[50vh] min-h-[300px] flex flex-row gap-4 md:gap-8 px-2 md:px-0 mt-12">
                     
                     {/* Render Both Options */}
-                    {bonusDisplayItems.map((item) => {
+                    {bonus.items.map((item) => {
                          const isReal = item.isReal;
                          const isAi = !isReal;
                          const isRevealed = bonusResult !== null;
@@ -729,7 +724,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ items, duration, onEndGa
                                     }}
                                 >
                                     <div className="w-full h-full relative">
-                                        <MediaDisplay item={item} enableZoom={false} objectFit="cover" />
+                                        <MediaDisplay item={item} enableZoom={false} objectFit="cover" onStatusChange={status => handleBonusMediaStatus(item.id, status)} />
                                         
                                         {/* Hover Tint */}
                                         {!isRevealed && (
@@ -764,7 +759,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ items, duration, onEndGa
                                                             </div>
                                                             {bonusResult === 'success' && (
                                                                 <div className="text-brand-gold font-black text-4xl md:text-5xl mt-2 drop-shadow-md">
-                                                                    +{BONUS_POINTS}
+                                                                    +{scoring.bonusPoints}
                                                                 </div>
                                                             )}
                                                         </motion.div>
@@ -788,7 +783,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ items, duration, onEndGa
                          >
                             <NextButton onClick={() => {
                                 soundManager.playClick();
-                                onEndGame(answers);
+                                dispatch({ type: 'FINISH', at: Date.now() });
                             }} variant="gold">
                                 NEXT
                             </NextButton>
@@ -798,7 +793,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ items, duration, onEndGa
                             <motion.div 
                                 initial={{ width: '100%' }}
                                 animate={{ width: '0%' }}
-                                transition={{ duration: 10, ease: 'linear' }}
+                                transition={{ duration: BONUS_ROUND_MS / 1000, ease: 'linear' }}
                                 className="h-full bg-gradient-to-r from-brand-red to-brand-gold"
                             />
                         </div>
@@ -823,7 +818,12 @@ export const GameScreen: React.FC<GameScreenProps> = ({ items, duration, onEndGa
                         className="w-full h-full bg-black relative overflow-hidden shadow-2xl border-2 border-brand-cyan/20 rounded-br-2xl rounded-bl-lg rounded-tr-lg"
                         style={chamferStyle}
                     >
-                         <MediaDisplay item={currentItem} enableZoom={true} />
+                         <MediaDisplay
+                            item={currentItem}
+                            enableZoom={true}
+                            preloaded={!!preloaderRef.current?.isReady(currentItem.url)}
+                            onStatusChange={status => updateMediaStatus(currentItem.id, status)}
+                         />
                          
                          {/* Tech Corners (Decorative within the container) */}
                          <div className="absolute top-0 right-0 w-8 h-8 border-t-[3px] border-r-[3px] border-brand-cyan/50 rounded-tr-lg pointer-events-none" />
@@ -890,10 +890,19 @@ export const GameScreen: React.FC<GameScreenProps> = ({ items, duration, onEndGa
                                   <h2 className="text-4xl sm:text-5xl font-digital font-black tracking-widest uppercase text-white mb-2 drop-shadow-lg">
                                       {feedback === 'correct' ? 'CORRECT!' : 'WRONG!'}
                                   </h2>
-                                  {feedback === 'correct' && lastPointsEarned > 0 && (
-                                    <div className="text-5xl sm:text-6xl font-digital font-black text-brand-gold drop-shadow-[0_0_25px_rgba(240,195,59,0.8)]">
-                                        +{lastPointsEarned}
-                                    </div>
+                                  {feedback === 'correct' && lastPoints && (
+                                    <>
+                                      <div className="text-5xl sm:text-6xl font-digital font-black text-brand-gold drop-shadow-[0_0_25px_rgba(240,195,59,0.8)]">
+                                          +{lastPoints.base + lastPoints.streak + lastPoints.speed}
+                                      </div>
+                                      {(lastPoints.streak > 0 || lastPoints.speed > 0) && (
+                                        <div className="flex justify-center gap-3 mt-2 text-xs sm:text-sm font-bold uppercase tracking-widest text-white/80">
+                                            <span>Base {lastPoints.base}</span>
+                                            {lastPoints.streak > 0 && <span className="text-brand-gold">Streak +{lastPoints.streak}</span>}
+                                            {lastPoints.speed > 0 && <span className="text-brand-cyan">Speed +{lastPoints.speed}</span>}
+                                        </div>
+                                      )}
+                                    </>
                                   )}
                               </motion.div>
                           </div>
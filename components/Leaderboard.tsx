@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Trophy, X } from 'lucide-react';
+import { soundManager } from '../utils/SoundManager';
+import { LeaderboardManager } from '../utils/db';
+import { LeaderboardEntry, LeaderboardPeriod, LEADERBOARD_PERIODS, LEADERBOARD_PERIOD_LABELS, LEADERBOARD_DURATIONS, LEADERBOARD_SIZE, rankEntries } from '../utils/leaderboard';
+
+interface LeaderboardProps {
+  onClose: () => void;
+  // Attract loop: no controls, the boards take turns and any touch closes it
+  attract?: boolean;
+}
+
+const ATTRACT_BOARD_MS = 6000;
+
+const BOARDS = LEADERBOARD_DURATIONS.flatMap(duration => LEADERBOARD_PERIODS.map(period => ({ duration, period })));
+
+const RANK_COLORS = ['text-brand-gold', 'text-white', 'text-[#cf982a]'];
+
+const Tab: React.FC<{ active: boolean; onClick: () => void; children?: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    onClick={() => { soundManager.playClick(); onClick(); }}
+    className={`px-4 py-2 text-sm font-bold uppercase tracking-wider border-2 transition-colors ${active ? 'bg-brand-cyan border-brand-cyan text-brand-navy' : 'border-brand-cyan/40 text-brand-cyan hover:border-brand-gold hover:text-brand-gold'}`}
+    style={{ clipPath: "polygon(6px 0, 100% 0, 100% calc(100% - 6px), calc(100% - 6px) 100%, 0 100%, 0 6px)" }}
+  >
+    {children}
+  </button>
+);
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({ onClose, attract = false }) => {
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [duration, setDuration] = useState(LEADERBOARD_DURATIONS[0]);
+  const [period, setPeriod] = useState<LeaderboardPeriod>('daily');
+
+  useEffect(() => {
+    LeaderboardManager.getEntries()
+      .then(setEntries)
+      .catch(err => {
+        console.error("Failed to load the leaderboard", err);
+        setEntries([]);
+      });
+  }, []);
+
+  // The attract loop only shows boards that have scores on them, or the
+  // first board when none do
+  const attractBoards = useMemo(() => {
+    if (!entries) return [];
+    const filled = BOARDS.filter(board => rankEntries(entries, board.period, board.duration).length > 0);
+    return filled.length > 0 ? filled : BOARDS.slice(0, 1);
+  }, [entries]);
+
+  useEffect(() => {
+    if (!attract) return;
+    window.addEventListener('keydown', onClose);
+    return () => window.removeEventListener('keydown', onClose);
+  }, [attract, onClose]);
+
+  useEffect(() => {
+    if (!attract || attractBoards.length === 0) return;
+    let index = 0;
+    setDuration(attractBoards[0].duration);
+    setPeriod(attractBoards[0].period);
+    const timer = setInterval(() => {
+      index = (index + 1) % attractBoards.length;
+      setDuration(attractBoards[index].duration);
+      setPeriod(attractBoards[index].period);
+    }, ATTRACT_BOARD_MS);
+    return () => clearInterval(timer);
+  }, [attract, attractBoards]);
+
+  const board = entries ? rankEntries(entries, period, duration) : [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={attract ? onClose : undefined}
+      className={`absolute inset-0 z-40 bg-brand-navy/95 backdrop-blur-md flex flex-col items-center justify-center p-6 overflow-y-auto ${attract ? 'cursor-pointer' : ''}`}
+    >
+      {!attract && (
+        <button
+          onClick={() => { soundManager.playClick(); onClose(); }}
+          className="absolute top-6 right-6 p-2 text-brand-cyan/70 hover:text-brand-cyan transition-colors rounded-full hover:bg-white/5"
+          title="Close"
+        >
+          <X className="w-7 h-7" />
+        </button>
+      )}
+
+      <h2 className="text-4xl sm:text-5xl font-digital font-bold text-white tracking-widest mb-2 flex items-center gap-4">
+        <Trophy className="w-10 h-10 text-brand-gold" /> HIGH SCORES
+      </h2>
+      <p className="text-brand-cyan font-bold uppercase tracking-[0.3em] text-sm mb-6">
+        {duration}s Challenge &middot; {LEADERBOARD_PERIOD_LABELS[period]}
+      </p>
+
+      {!attract && (
+        <div className="flex flex-wrap justify-center gap-2 mb-6">
+          {LEADERBOARD_DURATIONS.map(option => (
+            <Tab key={option} active={duration === option} onClick={() => setDuration(option)}>{option}s</Tab>
+          ))}
+          <div className="w-4" />
+          {LEADERBOARD_PERIODS.map(option => (
+            <Tab key={option} active={period === option} onClick={() => setPeriod(option)}>{LEADERBOARD_PERIOD_LABELS[option]}</Tab>
+          ))}
+        </div>
+      )}
+
+      <AnimatePresence mode="wait">
+        <motion.ol
+          key={`${duration}-${period}`}
+          initial={{ opacity: 0, x: 40 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: -40 }}
+          className="w-full max-w-md font-digital"
+        >
+          {Array.from({ length: LEADERBOARD_SIZE }, (_, index) => {
+            const entry = board[index];
+            return (
+              <li key={index} className={`flex items-center gap-6 py-1.5 border-b border-white/5 text-2xl sm:text-3xl tracking-widest ${RANK_COLORS[index] || 'text-brand-cyan'}`}>
+                <span className="w-12 text-right">{index + 1}.</span>
+                <span className="w-24">{entry ? entry.initials : '---'}</span>
+                <span className="ml-auto">{entry ? entry.score : ''}</span>
+              </li>
+            );
+          })}
+        </motion.ol>
+      </AnimatePresence>
+
+      {entries && board.length === 0 && (
+        <p className="text-white/60 font-bold uppercase tracking-widest text-sm mt-6">No scores yet, be the first!</p>
+      )}
+
+      {attract && (
+        <motion.p
+          animate={{ opacity: [1, 0.3, 1] }}
+          transition={{ repeat: Infinity, duration: 1.6 }}
+          className="text-brand-gold font-digital text-2xl tracking-[0.3em] mt-10"
+        >
+          TOUCH TO PLAY
+        </motion.p>
+      )}
+    </motion.div>
+  );
+};
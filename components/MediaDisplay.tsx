@@ -1,7 +1,10 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
 import { MediaItem } from '../types';
-import { Loader2, ZoomIn, AlertTriangle } from 'lucide-react';
+import { Loader2, ZoomIn, AlertTriangle, Play } from 'lucide-react';
+
+// 'buffering' is a video that started but ran out of data mid-playback
+export type MediaStatus = 'loading' | 'ready' | 'buffering' | 'error';
 
 interface MediaDisplayProps {
   item: MediaItem;
@@ -11,6 +14,9 @@ interface MediaDisplayProps {
   objectFit?: 'cover' | 'contain';
   muted?: boolean;
   transparent?: boolean;
+  thumbnail?: boolean; // Grid views: show the small stored preview instead of the full file
+  preloaded?: boolean; // Already loaded by utils/preloader.ts, so it's ready as soon as it mounts
+  onStatusChange?: (status: MediaStatus) => void;
 }
 
 export const MediaDisplay: React.FC<MediaDisplayProps> = ({ 
@@ -20,7 +26,10 @@ export const MediaDisplay: React.FC<MediaDisplayProps> = ({
   enableZoom = false,
   objectFit = 'cover',
   muted = false,
-  transparent = false
+  transparent = false,
+  thumbnail = false,
+  preloaded = false,
+  onStatusChange
 }) => {
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
@@ -28,6 +37,7 @@ export const MediaDisplay: React.FC<MediaDisplayProps> = ({
   const [isZoomed, setIsZoomed] = useState(false);
   const [transformOrigin, setTransformOrigin] = useState('50% 50%');
   const [progress, setProgress] = useState(0);
+  const [thumbnailFailed, setThumbnailFailed] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Reset state when item changes
@@ -36,8 +46,17 @@ export const MediaDisplay: React.FC<MediaDisplayProps> = ({
     setHasError(false);
     setIsZoomed(false);
     setProgress(0);
+    setThumbnailFailed(false);
+  }, [item.id]);
+
+  // Layout effect so it can't land after a cached image's load event
+  useLayoutEffect(() => {
+    onStatusChange?.(preloaded ? 'ready' : 'loading');
   }, [item.id]);
 
+  // Without a usable thumbnail the full file is loaded as before
+  const showThumbnail = thumbnail && !!item.thumbnailUrl && !thumbnailFailed;
+
   const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
     if (!enableZoom || !containerRef.current) return;
 
@@ -64,11 +83,13 @@ export const MediaDisplay: React.FC<MediaDisplayProps> = ({
   const handleError = () => {
     setIsLoading(false);
     setHasError(true);
+    onStatusChange?.('error');
   };
 
   const handleSuccess = () => {
     setIsLoading(false);
     setHasError(false);
+    onStatusChange?.('ready');
   };
 
   // Determine cursor style
@@ -119,7 +140,16 @@ export const MediaDisplay: React.FC<MediaDisplayProps> = ({
           transformOrigin: transformOrigin
         }}
       >
-        {item.type === 'video' ? (
+        {showThumbnail ? (
+          <img
+            src={item.thumbnailUrl}
+            alt={item.title}
+            loading="lazy"
+            className={`w-full h-full object-${objectFit}`}
+            onLoad={handleSuccess}
+            onError={() => setThumbnailFailed(true)}
+          />
+        ) : item.type === 'video' ? (
           <video
             src={item.url}
             className={`w-full h-full object-${objectFit}`}
@@ -128,6 +158,8 @@ export const MediaDisplay: React.FC<MediaDisplayProps> = ({
             muted={muted}
             playsInline
             onLoadedData={handleSuccess}
+            onWaiting={() => onStatusChange?.('buffering')}
+            onPlaying={() => onStatusChange?.('ready')}
             onError={handleError}
             onTimeUpdate={handleTimeUpdate}
           />
@@ -147,8 +179,15 @@ export const MediaDisplay: React.FC<MediaDisplayProps> = ({
         <div className={`absolute inset-0 bg-gradient-to-b from-transparent via-transparent to-black/20 pointer-events-none transition-opacity duration-300 ${isHovering ? 'opacity-0' : 'opacity-100'}`} />
       )}
 
+      {/* Poster frames get a play badge so videos are still recognisable */}
+      {showThumbnail && item.type === 'video' && !isLoading && (
+        <div className="absolute bottom-2 right-2 z-20 bg-black/60 rounded-full p-1.5 pointer-events-none">
+          <Play className="w-3 h-3 text-white fill-white" />
+        </div>
+      )}
+
       {/* Video Progress Bar */}
-      {item.type === 'video' && !isLoading && !hasError && (
+      {item.type === 'video' && !showThumbnail && !isLoading && !hasError && (
         <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-black/50 z-20">
             <div 
                 className="h-full bg-brand-cyan transition-all duration-100 ease-linear shadow-[0_0_10px_rgba(29,187,229,0.5)]"
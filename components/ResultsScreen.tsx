@@ -1,14 +1,20 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Check, X, RotateCcw, Trophy, Target } from 'lucide-react';
+import { Check, X, RotateCcw, Trophy, Target, Timer, ChevronUp, ChevronDown } from 'lucide-react';
 import { UserAnswer } from '../types';
 import { soundManager } from '../utils/SoundManager';
 import { playSound } from '../utils/music';
+import { averageDecisionTime, formatDecisionTime } from '../utils/stopwatch';
+import { LeaderboardPlacement, LEADERBOARD_PERIOD_LABELS, INITIALS_LENGTH, INITIALS_ALPHABET } from '../utils/leaderboard';
 import { Background } from './Background';
 
 interface ResultsScreenProps {
   answers: UserAnswer[];
+  seed: number;
+  challengeCode?: string; // Only for games another player can replay exactly
+  placements: LeaderboardPlacement[]; // High score boards this game made, empty if none
+  onSubmitInitials: (initials: string) => void;
   onReview: () => void;
   onPlayAgain: () => void;
 }
@@ -252,13 +258,125 @@ const ResultStatBox = ({
     );
 };
 
-export const ResultsScreen: React.FC<ResultsScreenProps> = ({ answers, onReview, onPlayAgain }) => {
+// Arcade style: each letter is dialled up or down, a keyboard can type them
+const InitialsEntry: React.FC<{
+  placements: LeaderboardPlacement[];
+  onSubmit: (initials: string) => void;
+  onSkip: () => void;
+}> = ({ placements, onSubmit, onSkip }) => {
+  const [letters, setLetters] = useState<string[]>(() => Array(INITIALS_LENGTH).fill('A'));
+  const [cursor, setCursor] = useState(0);
+  // The key listener stays up while the entry animates out, a second Enter
+  // (or one after Skip) mustn't save the score
+  const submitted = useRef(false);
+
+  const cycle = (index: number, step: number) => {
+    soundManager.playClick();
+    setCursor(index);
+    setLetters(prev => prev.map((letter, i) =>
+      i === index ? INITIALS_ALPHABET[(INITIALS_ALPHABET.indexOf(letter) + step + INITIALS_ALPHABET.length) % INITIALS_ALPHABET.length] : letter
+    ));
+  };
+
+  const submit = () => {
+    if (submitted.current) return;
+    submitted.current = true;
+    soundManager.playClick();
+    onSubmit(letters.join(''));
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const key = e.key.toUpperCase();
+      if (key.length === 1 && INITIALS_ALPHABET.includes(key)) {
+        soundManager.playClick();
+        setLetters(prev => prev.map((letter, i) => (i === cursor ? key : letter)));
+        setCursor(Math.min(cursor + 1, INITIALS_LENGTH - 1));
+      } else if (e.key === 'Backspace' || e.key === 'ArrowLeft') {
+        setCursor(Math.max(cursor - 1, 0));
+      } else if (e.key === 'ArrowRight') {
+        setCursor(Math.min(cursor + 1, INITIALS_LENGTH - 1));
+      } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        cycle(cursor, e.key === 'ArrowUp' ? 1 : -1);
+      } else if (e.key === 'Enter') {
+        // Otherwise it also clicks whichever button has focus
+        e.preventDefault();
+        submit();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [cursor, letters]);
+
+  const best = placements.reduce((top, placement) => (placement.rank < top.rank ? placement : top));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 z-40 bg-brand-navy/95 backdrop-blur-md flex flex-col items-center justify-center p-6"
+    >
+      <motion.h2
+        animate={{ scale: [1, 1.05, 1] }}
+        transition={{ repeat: Infinity, duration: 1.2 }}
+        className="text-4xl sm:text-6xl font-digital font-black text-brand-gold tracking-widest drop-shadow-[0_0_20px_rgba(240,195,59,0.6)] mb-2"
+      >
+        NEW HIGH SCORE!
+      </motion.h2>
+      <p className="text-brand-cyan font-bold uppercase tracking-[0.3em] text-sm mb-10">
+        #{best.rank} {LEADERBOARD_PERIOD_LABELS[best.period]} &middot; Enter your initials
+      </p>
+
+      <div className="flex gap-4 sm:gap-6 mb-10">
+        {letters.map((letter, index) => (
+          <div key={index} className="flex flex-col items-center gap-2">
+            <button onClick={() => cycle(index, 1)} className="p-2 text-brand-cyan hover:text-brand-gold transition-colors" title="Next letter">
+              <ChevronUp className="w-10 h-10 stroke-[3px]" />
+            </button>
+            <button
+              onClick={() => { soundManager.playClick(); setCursor(index); }}
+              className={`w-20 h-24 sm:w-24 sm:h-28 flex items-center justify-center font-digital text-6xl sm:text-7xl font-black border-4 transition-colors ${index === cursor ? 'border-brand-gold text-brand-gold bg-brand-gold/10' : 'border-brand-cyan/40 text-white'}`}
+              style={{ clipPath: "polygon(10px 0, 100% 0, 100% calc(100% - 10px), calc(100% - 10px) 100%, 0 100%, 0 10px)" }}
+            >
+              {letter}
+            </button>
+            <button onClick={() => cycle(index, -1)} className="p-2 text-brand-cyan hover:text-brand-gold transition-colors" title="Previous letter">
+              <ChevronDown className="w-10 h-10 stroke-[3px]" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="w-64">
+        <TechButton onClick={submit} variant="gold">ENTER</TechButton>
+      </div>
+      <button
+        onClick={() => {
+          if (submitted.current) return;
+          submitted.current = true;
+          soundManager.playClick();
+          onSkip();
+        }}
+        className="mt-6 text-white/50 hover:text-white text-sm font-bold uppercase tracking-widest transition-colors"
+      >
+        Skip
+      </button>
+    </motion.div>
+  );
+};
+
+export const ResultsScreen: React.FC<ResultsScreenProps> = ({ answers, seed, challengeCode, placements, onSubmitInitials, onReview, onPlayAgain }) => {
   const [showContent, setShowContent] = useState(false);
+  // The initials entry waits for the results to land first
+  const [initialsState, setInitialsState] = useState<'pending' | 'open' | 'saved' | 'skipped'>('pending');
   
   const correctCount = answers.filter(a => a.isCorrect).length;
   const incorrectCount = answers.length - correctCount;
   const totalScore = answers.reduce((sum, ans) => sum + (ans.pointsEarned || 0), 0);
   const percentage = answers.length > 0 ? Math.round((correctCount / answers.length) * 100) : 0;
+  const averageTime = averageDecisionTime(answers);
 
   useEffect(() => {
      setShowContent(true);
@@ -269,11 +387,22 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ answers, onReview,
      }
   }, [percentage]);
 
+  useEffect(() => {
+      if (placements.length === 0 || initialsState !== 'pending') return;
+      const timer = setTimeout(() => setInitialsState('open'), 1500);
+      return () => clearTimeout(timer);
+  }, [placements, initialsState]);
+
   const handleAction = (action: () => void) => {
       soundManager.playClick();
       action();
   };
 
+  const handleSubmitInitials = (initials: string) => {
+      onSubmitInitials(initials);
+      setInitialsState('saved');
+  };
+
   return (
     <div className="relative h-full w-full flex flex-col items-center justify-start overflow-hidden font-sans pt-24 sm:pt-32">
       
@@ -334,17 +463,35 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ answers, onReview,
                          </span>
                      </div>
                      <span className="text-brand-gold/80 text-sm font-bold uppercase tracking-[0.3em]">Score</span>
+                     {initialsState === 'saved' && (
+                         <span className="text-brand-cyan text-xs font-bold uppercase tracking-widest mt-2">
+                             {placements.map(placement => `#${placement.rank} ${LEADERBOARD_PERIOD_LABELS[placement.period]}`).join(' · ')}
+                         </span>
+                     )}
                  </div>
 
-                 {/* ACCURACY SECTION */}
-                 <div className="flex flex-col items-center mb-10 w-full">
-                     <div className="text-white/70 text-sm font-bold uppercase tracking-widest mb-2">Accuracy</div>
-                     <div className="flex items-center gap-3">
-                         <Target className="w-8 h-8 text-white" />
-                         <span className="font-digital text-5xl sm:text-6xl font-bold text-white tracking-widest">
-                             {percentage}%
-                         </span>
+                 {/* ACCURACY & DECISION TIME SECTION */}
+                 <div className="flex justify-center gap-10 sm:gap-16 mb-10 w-full">
+                     <div className="flex flex-col items-center">
+                         <div className="text-white/70 text-sm font-bold uppercase tracking-widest mb-2">Accuracy</div>
+                         <div className="flex items-center gap-3">
+                             <Target className="w-8 h-8 text-white" />
+                             <span className="font-digital text-5xl sm:text-6xl font-bold text-white tracking-widest">
+                                 {percentage}%
+                             </span>
+                         </div>
                      </div>
+                     {averageTime !== null && (
+                         <div className="flex flex-col items-center">
+                             <div className="text-white/70 text-sm font-bold uppercase tracking-widest mb-2">Avg. Decision</div>
+                             <div className="flex items-center gap-3">
+                                 <Timer className="w-8 h-8 text-brand-cyan" />
+                                 <span className="font-digital text-5xl sm:text-6xl font-bold text-brand-cyan tracking-widest">
+                                     {formatDecisionTime(averageTime)}
+                                 </span>
+                             </div>
+                         </div>
+                     )}
                  </div>
 
                  {/* BREAKDOWN GRID */}
@@ -353,6 +500,15 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ answers, onReview,
                      <ResultStatBox type="incorrect" count={incorrectCount} label="Incorrect" />
                  </div>
 
+                 {/* CHALLENGE CODE */}
+                 {challengeCode && (
+                     <div className="flex flex-col items-center mt-8 w-full">
+                         <div className="text-white/70 text-xs font-bold uppercase tracking-widest mb-1">Challenge a Friend</div>
+                         <span className="font-digital text-3xl sm:text-4xl font-bold text-brand-cyan tracking-[0.2em]">{challengeCode}</span>
+                         <span className="text-white/40 text-[10px] font-bold uppercase tracking-widest mt-1">Enter this code on the start screen to play the same items &middot; Seed {seed}</span>
+                     </div>
+                 )}
+
              </div>
          </motion.div>
 
@@ -372,6 +528,16 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ answers, onReview,
          </motion.div>
 
       </div>
+
+      <AnimatePresence>
+        {initialsState === 'open' && (
+          <InitialsEntry 
+            placements={placements}
+            onSubmit={handleSubmitInitials}
+            onSkip={() => setInitialsState('skipped')}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -1,11 +1,12 @@
 
 import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Check, X, RotateCcw, BrainCircuit, Image as ImageIcon, AlertTriangle, Trophy, Home, Eye } from 'lucide-react';
+import { Check, X, RotateCcw, BrainCircuit, Image as ImageIcon, AlertTriangle, Trophy, Home, Eye, Timer } from 'lucide-react';
 import { UserAnswer, MediaItem } from '../types';
 import { MediaDisplay } from './MediaDisplay';
 import { LearnModal } from './LearnModal';
 import { soundManager } from '../utils/SoundManager';
+import { averageDecisionTime, formatDecisionTime } from '../utils/stopwatch';
 import { Background } from './Background';
 
 interface ReviewScreenProps {
@@ -147,7 +148,7 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({ answers, items, onPl
   }, [handleUserActivity, startIdleTimer]);
 
   // Process data: Merge answers with item data, then group and sort
-  const { aiItems, realItems, flatList, correctCount, totalScore } = useMemo(() => {
+  const { aiItems, realItems, flatList, correctCount, totalScore, averageTime } = useMemo(() => {
     const merged = answers.map(answer => ({
       answer,
       itemData: items.find(i => i.id === answer.itemId)!
@@ -168,7 +169,8 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({ answers, items, onPl
       realItems: real,
       flatList: [...ai, ...real], // Flattened list for sequential modal navigation
       correctCount: answers.filter(a => a.isCorrect).length,
-      totalScore: score
+      totalScore: score,
+      averageTime: averageDecisionTime(answers)
     };
   }, [answers, items]);
 
@@ -214,7 +216,7 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({ answers, items, onPl
             
             {/* Inner Content */}
             <div className="absolute inset-[3px] bg-[#0f172a] overflow-hidden" style={{ clipPath }}>
-                 <MediaDisplay item={data.itemData} className="w-full h-full opacity-80 group-hover:opacity-100 transition-opacity" autoPlay={false} />
+                 <MediaDisplay item={data.itemData} className="w-full h-full opacity-80 group-hover:opacity-100 transition-opacity" autoPlay={false} thumbnail />
                  
                  {/* Gradient Overlay for Text */}
                  <div className="absolute inset-x-0 bottom-0 h-2/3 bg-gradient-to-t from-black/90 via-black/40 to-transparent" />
@@ -226,6 +228,16 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({ answers, items, onPl
                      </div>
                  </div>
 
+                 {/* Decision Time */}
+                 {data.answer.timeTaken > 0 && (
+                     <div className="absolute top-0 left-4 p-2">
+                         <div className="flex items-center gap-1 bg-black/60 backdrop-blur-sm rounded px-1.5 py-0.5 border border-white/10 text-white/80">
+                             <Timer className="w-3 h-3" />
+                             <span className="text-[10px] font-bold font-digital tracking-wider">{formatDecisionTime(data.answer.timeTaken)}</span>
+                         </div>
+                     </div>
+                 )}
+
                  {/* Title */}
                  <div className="absolute bottom-3 left-3 right-3">
                      <p className="text-white text-xs font-bold uppercase tracking-wider truncate border-l-2 pl-2" style={{ borderColor: color }}>
@@ -296,6 +308,19 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({ answers, items, onPl
                         <span className="text-white/40 font-bold text-sm">/ {answers.length}</span>
                      </div>
                  </div>
+
+                 {averageTime !== null && (
+                     <>
+                         {/* Divider */}
+                         <div className="w-px h-10 bg-white/10 hidden md:block" />
+
+                         {/* Decision Time Display */}
+                         <div className="flex flex-col items-center md:items-end">
+                             <div className="text-brand-cyan font-bold text-xs uppercase tracking-widest mb-0.5">Avg. Decision</div>
+                             <span className="text-3xl font-black text-white font-digital tracking-wider">{formatDecisionTime(averageTime)}</span>
+                         </div>
+                     </>
+                 )}
             </div>
          </div>
       </div>
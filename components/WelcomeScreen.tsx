@@ -1,13 +1,20 @@
 
-import React, { useState } from 'react';
-import { motion } from 'framer-motion';
-import { Search, Settings, Volume2, VolumeX, ImageOff } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, Settings, Volume2, VolumeX, ImageOff, Swords, SlidersHorizontal, AlertTriangle, Trophy } from 'lucide-react';
 import { soundManager } from '../utils/SoundManager';
 import { initAudio, toggleMute as toggleMusicMute } from '../utils/music';
 import { Background } from './Background';
+import { Leaderboard } from './Leaderboard';
+import { MediaItem, MediaType } from '../types';
+import { GameChallenge, parseChallengeCode } from '../utils/challenge';
+import { GameFilters, FilterCatalog, MEDIA_TYPES, MIN_GAME_ITEMS, buildFilterCatalog, filterItems, hasFilters, pruneFilters } from '../utils/gameFilters';
 
 interface WelcomeScreenProps {
-  onStart: (duration: number) => void;
+  items: MediaItem[]; // Playable pool, before filtering
+  filters: GameFilters;
+  onFiltersChange: (filters: GameFilters) => void;
+  onStart: (duration: number, challenge?: GameChallenge) => void;
   onAdmin?: () => void;
 }
 
@@ -77,10 +84,125 @@ const ClipButton = ({
   );
 };
 
-export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onAdmin }) => {
+const FilterChip: React.FC<{ label: string; active: boolean; onClick: () => void }> = ({ label, active, onClick }) => (
+  <button
+    onClick={() => { soundManager.playClick(); onClick(); }}
+    className={`px-4 py-2 text-sm font-bold uppercase tracking-wider border-2 transition-colors ${active ? 'bg-brand-cyan border-brand-cyan text-brand-navy' : 'border-brand-cyan/40 text-brand-cyan hover:border-brand-gold hover:text-brand-gold'}`}
+    style={{ clipPath: "polygon(6px 0, 100% 0, 100% calc(100% - 6px), calc(100% - 6px) 100%, 0 100%, 0 6px)" }}
+  >
+    {label}
+  </button>
+);
+
+// How long the start screen waits for someone before the attract loop begins
+const ATTRACT_DELAY_MS = 45000;
+
+const MEDIA_TYPE_LABELS: Record<MediaType, string> = { image: 'Images', video: 'Videos' };
+
+// Pick what the game draws from. Nothing selected in a group means all of it.
+const GameSetupPanel = ({ 
+  items, 
+  catalog, 
+  filters, 
+  onChange, 
+  onClose 
+}: { 
+  items: MediaItem[]; 
+  catalog: FilterCatalog; 
+  filters: GameFilters; 
+  onChange: (filters: GameFilters) => void; 
+  onClose: () => void; 
+}) => {
+  const matchCount = filterItems(items, filters).length;
+
+  const toggle = <K extends keyof GameFilters>(key: K, value: GameFilters[K][number]) => {
+    const current = filters[key] as GameFilters[K][number][];
+    const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+    onChange({ ...filters, [key]: next });
+  };
+
+  const section = (title: string, allActive: boolean, onAll: () => void, chips: React.ReactNode) => (
+    <div className="mb-6">
+      <h3 className="text-brand-gold text-sm font-bold uppercase tracking-[0.2em] mb-3">{title}</h3>
+      <div className="flex flex-wrap justify-center gap-2">
+        <FilterChip label="All" active={allActive} onClick={onAll} />
+        {chips}
+      </div>
+    </div>
+  );
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="absolute inset-0 z-30 bg-brand-navy/95 backdrop-blur-md flex flex-col items-center justify-center p-6 overflow-y-auto"
+    >
+      <h2 className="text-4xl font-digital font-bold text-white tracking-widest mb-8">GAME SETUP</h2>
+      <div className="w-full max-w-3xl">
+        {section('Media', filters.mediaTypes.length === 0, () => onChange({ ...filters, mediaTypes: [] }),
+          MEDIA_TYPES.map(type => (
+            <FilterChip key={type} label={MEDIA_TYPE_LABELS[type]} active={filters.mediaTypes.includes(type)} onClick={() => toggle('mediaTypes', type)} />
+          ))
+        )}
+        {catalog.categories.length > 0 && section('Categories', filters.categories.length === 0, () => onChange({ ...filters, categories: [] }),
+          catalog.categories.map(category => (
+            <FilterChip key={category} label={category} active={filters.categories.includes(category)} onClick={() => toggle('categories', category)} />
+          ))
+        )}
+        {catalog.aiModels.length > 0 && section('AI Models', filters.aiModels.length === 0, () => onChange({ ...filters, aiModels: [] }),
+          catalog.aiModels.map(model => (
+            <FilterChip key={model} label={model} active={filters.aiModels.includes(model)} onClick={() => toggle('aiModels', model)} />
+          ))
+        )}
+      </div>
+
+      <div className={`flex items-center gap-2 mb-6 font-bold uppercase tracking-widest text-sm ${matchCount < MIN_GAME_ITEMS ? 'text-brand-red' : 'text-brand-cyan'}`}>
+        {matchCount < MIN_GAME_ITEMS && <AlertTriangle className="w-5 h-5" />}
+        {matchCount} {matchCount === 1 ? 'item matches' : 'items match'}
+        {matchCount < MIN_GAME_ITEMS && ', the game may end early'}
+      </div>
+
+      <ClipButton onClick={onClose} variant="gold" className="text-lg">
+        Done
+      </ClipButton>
+    </motion.div>
+  );
+};
+
+export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ items, filters, onFiltersChange, onStart, onAdmin }) => {
   const [duration, setDuration] = useState<number>(30);
   const [isMuted, setIsMuted] = useState(false);
   const [imgError, setImgError] = useState(false);
+  const [showChallenge, setShowChallenge] = useState(false);
+  const [challengeCode, setChallengeCode] = useState('');
+  const [challengeError, setChallengeError] = useState(false);
+  const [showSetup, setShowSetup] = useState(false);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [isAttracting, setIsAttracting] = useState(false);
+
+  const catalog = useMemo(() => buildFilterCatalog(items), [items]);
+  // Saved selections may refer to packs that have been disabled since
+  const activeFilters = useMemo(() => pruneFilters(filters, catalog), [filters, catalog]);
+
+  // Nobody has touched the kiosk for a while: cycle the high score boards
+  // until someone does. Not while a panel or the code entry is open.
+  useEffect(() => {
+    if (showSetup || showChallenge || showLeaderboard || isAttracting) return;
+
+    let timer = window.setTimeout(() => setIsAttracting(true), ATTRACT_DELAY_MS);
+    const restart = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => setIsAttracting(true), ATTRACT_DELAY_MS);
+    };
+    const activityEvents = ['mousedown', 'keydown', 'touchstart'];
+    activityEvents.forEach(event => window.addEventListener(event, restart));
+    return () => {
+      window.clearTimeout(timer);
+      activityEvents.forEach(event => window.removeEventListener(event, restart));
+    };
+  }, [showSetup, showChallenge, showLeaderboard, isAttracting]);
+
+  const handleStopAttract = useCallback(() => setIsAttracting(false), []);
 
   const handleStart = () => {
     soundManager.init();
@@ -89,6 +211,19 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onAdmin }
     onStart(duration);
   };
 
+  const handleStartChallenge = () => {
+    const challenge = parseChallengeCode(challengeCode, catalog);
+    if (!challenge) {
+      soundManager.playIncorrect();
+      setChallengeError(true);
+      return;
+    }
+    soundManager.init();
+    initAudio();
+    soundManager.playClick();
+    onStart(challenge.duration, challenge);
+  };
+
   const handleDurationChange = (newDur: number) => {
     soundManager.playClick();
     setDuration(newDur);
@@ -187,6 +322,13 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onAdmin }
             >
               60s
             </ClipButton>
+            <ClipButton 
+              onClick={() => { soundManager.playClick(); setShowSetup(true); }} 
+              active={hasFilters(activeFilters)}
+              className="text-lg"
+            >
+              <SlidersHorizontal className="w-5 h-5" />
+            </ClipButton>
         </motion.div>
 
         <motion.div
@@ -203,8 +345,68 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onAdmin }
             Start Game
           </ClipButton>
         </motion.div>
+
+        {/* Challenge Code Entry */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.4 }}
+          className="mt-8 flex flex-col items-center"
+        >
+          {showChallenge ? (
+            <div className="flex flex-col items-center gap-3">
+              <input
+                autoFocus
+                value={challengeCode}
+                onChange={e => { setChallengeCode(e.target.value.toUpperCase()); setChallengeError(false); }}
+                onKeyDown={e => { if (e.key === 'Enter') handleStartChallenge(); }}
+                placeholder="30-XXXX-XXXX"
+                className={`w-72 bg-brand-navy/80 border-2 ${challengeError ? 'border-brand-red' : 'border-brand-cyan/50 focus:border-brand-gold'} px-4 py-3 text-center font-digital text-2xl tracking-[0.2em] text-white outline-none`}
+              />
+              {challengeError && (
+                <span className="text-brand-red text-xs font-bold uppercase tracking-widest">Code not recognised, check it and try again</span>
+              )}
+              <ClipButton onClick={handleStartChallenge} className="text-lg">
+                <Swords className="w-5 h-5" />
+                Accept Challenge
+              </ClipButton>
+            </div>
+          ) : (
+            <button
+              onClick={() => { soundManager.playClick(); setShowChallenge(true); }}
+              className="text-brand-cyan/70 hover:text-brand-cyan text-sm font-bold uppercase tracking-widest transition-colors"
+            >
+              Have a challenge code?
+            </button>
+          )}
+        </motion.div>
+
+        <motion.button
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.5 }}
+          onClick={() => { soundManager.playClick(); setShowLeaderboard(true); }}
+          className="mt-6 flex items-center gap-2 text-brand-gold/80 hover:text-brand-gold text-sm font-bold uppercase tracking-widest transition-colors"
+        >
+          <Trophy className="w-4 h-4" /> High Scores
+        </motion.button>
       </div>
 
+      {showSetup && (
+        <GameSetupPanel 
+          items={items}
+          catalog={catalog}
+          filters={activeFilters}
+          onChange={onFiltersChange}
+          onClose={() => { soundManager.playClick(); setShowSetup(false); }}
+        />
+      )}
+
+      <AnimatePresence>
+        {showLeaderboard && <Leaderboard onClose={() => setShowLeaderboard(false)} />}
+        {isAttracting && <Leaderboard attract onClose={handleStopAttract} />}
+      </AnimatePresence>
+
       {/* Admin Button */}
       {onAdmin && (
         <button 
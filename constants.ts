@@ -20,5 +20,10 @@ const getMediaUrl = (path: string) => {
 
 export const GAME_DURATION_SECONDS = 30;
 
+// Items saved from the Admin editor go here unless another pack is picked
+export const DEFAULT_PACK_ID = 'library';
+// Virtual pack for items loaded from a manually installed game_data.json
+export const LOCAL_PACK_ID = 'local-install';
+
 // Default empty. Content must be uploaded via Admin -> Import Game Pack.
 export const GAME_DATA: MediaItem[] = [];
@@ -0,0 +1,16 @@
+// The parts of the File System Access API used for streaming exports, which
+// TypeScript's DOM library doesn't include yet. Only Chromium browsers have it.
+
+interface SaveFilePickerAcceptType {
+  description?: string;
+  accept: Record<string, string[]>;
+}
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: SaveFilePickerAcceptType[];
+}
+
+interface Window {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+}
@@ -13,14 +13,72 @@ export interface MediaItem {
   shortTip?: string; // e.g. "Look at the fingers" (New micro-learning field)
   aiModel?: string; // e.g., "Midjourney v6", "Sora", "DALL-E 3"
   isCustom?: boolean; // Flag to identify user-uploaded content
+  packId?: string; // Game Pack this item belongs to
+  mediaHash?: string; // SHA-256 of the stored media file, shared by identical uploads
+  perceptualHash?: string; // dHash of the image, used to spot resized/recompressed copies
+  thumbnailUrl?: string; // Small preview for grid views, resolved from thumbnailHash for stored items
+  thumbnailHash?: string; // Stored file holding the thumbnail (poster frame for videos)
+  preserveOriginal?: boolean; // Store the upload byte-for-byte, compression artifacts could give away the answer
+  difficulty?: number; // 1 (very easy) to 5 (very hard), estimated from play stats when not set, see utils/difficulty.ts
+}
+
+export interface GamePack {
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  author: string;
+  createdAt: string; // ISO date
+  enabled: boolean; // Disabled packs are kept but never drawn into a game
+  scoring?: Partial<ScoringConfig>; // Overrides the Admin panel's scoring rules for games using this pack
+}
+
+// Answers within fullBonusMs earn maxPoints, falling off linearly to nothing at
+// noBonusMs. Only the time the item was actually on screen counts.
+export interface SpeedBonusCurve {
+  maxPoints: number;
+  fullBonusMs: number;
+  noBonusMs: number;
+}
+
+// See utils/scoring.ts for the defaults and how overrides are applied
+export interface ScoringConfig {
+  basePoints: number;             // For every correct answer
+  streakThreshold: number;        // Correct answers in a row before streakMultiplier applies
+  streakMultiplier: number;
+  megaStreakThreshold: number;    // ...and before megaStreakMultiplier applies
+  megaStreakMultiplier: number;
+  bonusRoundQualifier: number;    // Streak that earns the bonus round at the end
+  bonusPoints: number;            // For picking the AI item in the bonus round
+  speedBonus: Record<number, SpeedBonusCurve>; // Keyed by game duration in seconds, modes without an entry have none
+}
+
+// How pointsEarned was made up, they always add up to it
+export interface PointsBreakdown {
+  base: number;
+  streak: number; // Extra from the streak multiplier
+  speed: number;  // Speed bonus, added after the multiplier
 }
 
 export interface UserAnswer {
   itemId: string;
   guessedReal: boolean;
   isCorrect: boolean;
-  timeTaken: number; // milliseconds
+  timeTaken: number; // milliseconds the item was on screen before the answer, 0 if it never finished loading
   pointsEarned: number;
+  points?: PointsBreakdown; // Regular rounds only
+  stallTime?: number; // milliseconds the item spent loading or buffering, the clock was paused meanwhile
+}
+
+// Running totals for one item over every game played on this kiosk
+export interface ItemStats {
+  itemId: string;
+  shown: number;
+  answered: number;
+  correct: number;
+  guessedReal: number;
+  totalTimeMs: number;  // Sum of timeTaken over the answers that have one
+  timedAnswers: number;
 }
 
 export type GameState = 'WELCOME' | 'PLAYING' | 'RESULTS' | 'REVIEW' | 'ADMIN';
@@ -0,0 +1,177 @@
+import { MediaItem } from '../types';
+import { GameSession } from './db';
+import { collectItemStats, summarizeItemStats } from './itemStats';
+
+// ==========================================
+// SESSION ANALYTICS
+// ==========================================
+// Figures for the Admin Analytics tab, worked out from the stored sessions in
+// the chosen date range. Days are local to the kiosk. Accuracy by category and
+// AI model uses what the items were when each game was played (GameSession.items),
+// so editing or deleting an item doesn't rewrite the history.
+// ==========================================
+
+export interface AnalyticsSummary {
+  sessions: number;
+  averageScore: number | null;
+  answers: number;
+  accuracy: number | null;      // 0-1, regular rounds only
+  bonusRounds: number;
+  bonusWins: number;
+  bonusSuccessRate: number | null;
+}
+
+export interface DailyCount {
+  day: string;                  // YYYY-MM-DD
+  sessions: number;
+  averageScore: number | null;
+}
+
+export interface AccuracyGroup {
+  label: string;
+  answered: number;
+  correct: number;
+  accuracy: number;             // 0-1
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Regular round answers only, the bonus round shows up as bonus_finished
+const regularAnswers = (session: GameSession) =>
+  session.events.flatMap(event => (event.type === 'answered' ? [event.answer] : []));
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+
+export const dayKey = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Start of a YYYY-MM-DD day in local time, null if the text isn't a date
+export const parseDayKey = (day: string): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime() : null;
+};
+
+export const summarizeSessions = (sessions: GameSession[]): AnalyticsSummary => {
+  const answers = sessions.flatMap(regularAnswers);
+  const bonusResults = sessions.flatMap(session =>
+    session.events.flatMap(event => (event.type === 'bonus_finished' ? [event.result] : [])));
+  const bonusWins = bonusResults.filter(result => result === 'success').length;
+
+  return {
+    sessions: sessions.length,
+    averageScore: average(sessions.map(session => session.score)),
+    answers: answers.length,
+    accuracy: answers.length > 0 ? answers.filter(answer => answer.isCorrect).length / answers.length : null,
+    bonusRounds: bonusResults.length,
+    bonusWins,
+    bonusSuccessRate: bonusResults.length > 0 ? bonusWins / bonusResults.length : null,
+  };
+};
+
+// One entry per day from `from` to `to`, days without games included
+export const sessionsPerDay = (sessions: GameSession[], from: number, to: number): DailyCount[] => {
+  const byDay = new Map<string, GameSession[]>();
+  sessions.forEach(session => {
+    const day = dayKey(session.endedAt);
+    byDay.set(day, [...(byDay.get(day) || []), session]);
+  });
+
+  const days: DailyCount[] = [];
+  // Noon steps stay on the right date across daylight saving changes
+  for (let time = parseDayKey(dayKey(from))! + MS_PER_DAY / 2; time <= to; time += MS_PER_DAY) {
+    const day = dayKey(time);
+    const daySessions = byDay.get(day) || [];
+    days.push({ day, sessions: daySessions.length, averageScore: average(daySessions.map(session => session.score)) });
+  }
+  return days;
+};
+
+// Regular round accuracy grouped by the item's category, or by AI model (AI items only)
+export const accuracyBy = (sessions: GameSession[], field: 'category' | 'aiModel'): AccuracyGroup[] => {
+  const groups = new Map<string, AccuracyGroup>();
+  sessions.forEach(session => {
+    const items = new Map(session.items.map(item => [item.id, item]));
+    regularAnswers(session).forEach(answer => {
+      const item = items.get(answer.itemId);
+      if (!item || (field === 'aiModel' && item.isReal)) return;
+      const label = (field === 'category' ? item.category : item.aiModel?.trim()) || (field === 'category' ? 'Uncategorized' : 'Unknown model');
+      const group = groups.get(label) || { label, answered: 0, correct: 0, accuracy: 0 };
+      group.answered++;
+      if (answer.isCorrect) group.correct++;
+      group.accuracy = group.correct / group.answered;
+      groups.set(label, group);
+    });
+  });
+  return Array.from(groups.values()).sort((a, b) => b.answered - a.answered);
+};
+
+// ==========================================
+// EXPORT
+// ==========================================
+
+type CsvValue = string | number | boolean | null | undefined;
+
+const csvCell = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: CsvValue[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+const round = (value: number | null, digits: number) =>
+  (value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits);
+
+export const sessionsToCsv = (sessions: GameSession[]) => toCsv(
+  ['session_id', 'started_at', 'ended_at', 'duration_s', 'score', 'answers', 'correct', 'accuracy', 'bonus_result', 'adaptive', 'seed'],
+  sessions.map(session => {
+    const answers = regularAnswers(session);
+    const correct = answers.filter(answer => answer.isCorrect).length;
+    const bonus = session.events.find(event => event.type === 'bonus_finished');
+    return [
+      session.id,
+      new Date(session.startedAt).toISOString(),
+      new Date(session.endedAt).toISOString(),
+      session.duration,
+      session.score,
+      answers.length,
+      correct,
+      round(answers.length > 0 ? correct / answers.length : null, 3),
+      bonus?.type === 'bonus_finished' ? bonus.result : '',
+      session.adaptive,
+      session.seed,
+    ];
+  })
+);
+
+// Per-item totals over the given sessions. Items that are gone since fall
+// back to what the sessions recorded about them.
+export const itemStatsToCsv = (sessions: GameSession[], items: MediaItem[]) => {
+  const current = new Map(items.map(item => [item.id, item]));
+  const recorded = new Map(sessions.flatMap(session => session.items.map(item => [item.id, item] as const)));
+  const totals = collectItemStats(sessions.flatMap(session => session.events));
+
+  return toCsv(
+    ['item_id', 'title', 'is_real', 'category', 'ai_model', 'shown', 'answered', 'correct', 'accuracy', 'avg_time_ms', 'guessed_real_rate'],
+    Array.from(totals.values()).map(stats => {
+      const item = current.get(stats.itemId) ?? recorded.get(stats.itemId);
+      const summary = summarizeItemStats(stats);
+      return [
+        stats.itemId,
+        current.get(stats.itemId)?.title ?? '',
+        item?.isReal,
+        item?.category,
+        item?.aiModel,
+        stats.shown,
+        stats.answered,
+        stats.correct,
+        round(summary.accuracy, 3),
+        round(summary.averageTimeMs, 0),
+        round(summary.guessedRealRate, 3),
+      ];
+    })
+  );
+};
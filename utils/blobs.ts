@@ -0,0 +1,23 @@
+// Decode a data URL synchronously. IndexedDB upgrade transactions auto-commit
+// as soon as control returns to the event loop, so fetch() can't be used there.
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const commaIndex = dataUrl.indexOf(',');
+  const header = dataUrl.slice(0, commaIndex);
+  const data = dataUrl.slice(commaIndex + 1);
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  const raw = header.includes(';base64') ? atob(data) : decodeURIComponent(data);
+
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+// Hex SHA-256 of the file contents, used as the key media is stored under
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
@@ -0,0 +1,90 @@
+import { GameFilters, FilterCatalog, NO_FILTERS, filtersToFlags, flagsToFilters } from './gameFilters';
+
+// ==========================================
+// CHALLENGE CODES
+// ==========================================
+// A short code for a game's seed, duration and setup filters, e.g.
+// "30-0K7Q-FX2C". Entering it on another kiosk plays the same items in the
+// same order, provided both have the same packs enabled and the same round
+// balance settings. Everything is written in Crockford base32 (no I, L, O or
+// U, so it survives being read aloud or copied by hand) and ends in one check
+// character that catches most typos.
+//
+//   <duration>-<seed: 7 chars><filter flags: 0+ chars><check: 1 char>
+//
+// Filters are stored as one flag per option in the kiosk's FilterCatalog, so
+// a game without filters gets the shortest code.
+// ==========================================
+
+export interface GameChallenge {
+  seed: number;       // Unsigned 32-bit
+  duration: number;   // Seconds
+  filters: GameFilters;
+}
+
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const SEED_LENGTH = 7; // 35 bits, enough for any 32-bit seed
+const BITS_PER_CHAR = 5;
+
+const checkCharacter = (body: string) => {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) sum += ALPHABET.indexOf(body[i]) * (i + 1);
+  return ALPHABET[sum % ALPHABET.length];
+};
+
+// Trailing characters with no flags set are left off
+const encodeFlags = (flags: boolean[]) => {
+  let chars = '';
+  for (let i = 0; i < flags.length; i += BITS_PER_CHAR) {
+    const value = flags.slice(i, i + BITS_PER_CHAR).reduce((acc, flag, bit) => acc | (flag ? 1 << bit : 0), 0);
+    chars += ALPHABET[value];
+  }
+  return chars.replace(/0+$/, '');
+};
+
+const decodeFlags = (chars: string) =>
+  [...chars].flatMap(char => {
+    const value = ALPHABET.indexOf(char);
+    return Array.from({ length: BITS_PER_CHAR }, (_, bit) => (value & (1 << bit)) !== 0);
+  });
+
+export const encodeChallengeCode = ({ seed, duration, filters }: GameChallenge, catalog: FilterCatalog): string => {
+  let value = seed >>> 0;
+  let body = '';
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    body = ALPHABET[value % 32] + body;
+    value = Math.floor(value / 32);
+  }
+  body += encodeFlags(filtersToFlags(filters, catalog));
+  body += checkCharacter(`${duration}${body}`);
+  return `${duration}-${body.match(/.{1,4}/g)!.join('-')}`;
+};
+
+const parseParts = (durationText: string, body: string, catalog: FilterCatalog): GameChallenge | null => {
+  if (body.length < SEED_LENGTH + 1 || [...body].some(char => !ALPHABET.includes(char))) return null;
+  const content = body.slice(0, -1);
+  if (checkCharacter(`${durationText}${content}`) !== body[body.length - 1]) return null;
+
+  const seed = [...content.slice(0, SEED_LENGTH)].reduce((value, char) => value * 32 + ALPHABET.indexOf(char), 0);
+  if (seed > 0xffffffff) return null;
+
+  const flagChars = content.slice(SEED_LENGTH);
+  const filters = flagChars ? flagsToFilters(decodeFlags(flagChars), catalog) : NO_FILTERS;
+  if (!filters) return null;
+  return { seed, duration: parseInt(durationText, 10), filters };
+};
+
+// null for anything that isn't a valid code for this kiosk. Case, spacing, dashes
+// and the usual look-alike characters (O for 0, I/L for 1) are forgiven.
+export const parseChallengeCode = (code: string, catalog: FilterCatalog): GameChallenge | null => {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+  // With the dashes gone a seed starting with a digit could pass for part of
+  // the duration, the check character settles which split is right
+  for (const durationLength of [2, 3]) {
+    const durationText = normalized.slice(0, durationLength);
+    if (!/^\d+$/.test(durationText)) continue;
+    const challenge = parseParts(durationText, normalized.slice(durationLength), catalog);
+    if (challenge) return challenge;
+  }
+  return null;
+};
@@ -1,11 +1,35 @@
-
-import { MediaItem } from '../types';
-import { GAME_DATA } from '../constants';
+import { MediaItem, GamePack, ItemStats, UserAnswer } from '../types';
+import { GAME_DATA, LOCAL_PACK_ID } from '../constants';
 import JSZip from 'jszip';
+import { DB_VERSION, STORES, LEGACY_HASH_PREFIX, runMigrations } from './migrations';
+import { dataUrlToBlob, hashBlob } from './blobs';
+import { computeDHash } from './imageHash';
+import { generateThumbnail } from './thumbnails';
+import { GameEvent } from './gameMachine';
+import { collectItemStats, mergeItemStats } from './itemStats';
+import { LeaderboardEntry } from './leaderboard';
+import { formatBytes } from './storage';
+import { MANIFEST_VERSION, RawManifest, isRecord, upgradeManifest, validateManifest, formatValidationError } from './manifest';
 
 const DB_NAME = 'RealOrAI_DB';
-const STORE_NAME = 'custom_media';
-const DB_VERSION = 1;
+const STORE_NAME = STORES.items;
+const FILE_STORE_NAME = STORES.files;
+const PACK_STORE_NAME = STORES.packs;
+const SETTINGS_STORE_NAME = STORES.settings;
+const ITEM_STATS_STORE_NAME = STORES.itemStats;
+const SESSION_STORE_NAME = STORES.sessions;
+const LEADERBOARD_STORE_NAME = STORES.leaderboard;
+
+interface StoredSetting {
+  key: string;
+  value: unknown;
+}
+
+// Media files are keyed by content hash, any number of items can point at one
+interface StoredFile {
+  hash: string;
+  blob: Blob;
+}
 
 // Helper to open DB
 const openDB = (): Promise<IDBDatabase> => {
@@ -13,27 +37,135 @@ const openDB = (): Promise<IDBDatabase> => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    request.onblocked = () => console.warn("Database upgrade is waiting for other open tabs to close.");
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade instead of blocking it
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-      }
+      runMigrations(request.result, request.transaction!, event.oldVersion, event.newVersion ?? DB_VERSION);
     };
   });
 };
 
-// Convert File to Base64
-export const fileToBase64 = (file: File): Promise<string> => {
+// Object URLs handed out for stored files, keyed by media hash.
+// Reused across loads so the same file doesn't leak a new URL every time.
+const objectUrls = new Map<string, string>();
+
+const getObjectUrl = (hash: string, blob: Blob): string => {
+  let url = objectUrls.get(hash);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    objectUrls.set(hash, url);
+  }
+  return url;
+};
+
+const revokeObjectUrl = (hash: string) => {
+  const url = objectUrls.get(hash);
+  if (url) {
+    URL.revokeObjectURL(url);
+    objectUrls.delete(hash);
+  }
+};
+
+// Queue deletion of a file once no item references it any more, as media or as
+// thumbnail. Must be called after the item changes have been requested on the
+// same transaction.
+const deleteFileIfUnused = (transaction: IDBTransaction, hash: string, onDeleted: (hash: string) => void) => {
+  const itemStore = transaction.objectStore(STORE_NAME);
+  itemStore.index('mediaHash').count(hash).onsuccess = (e) => {
+    if ((e.target as IDBRequest<number>).result > 0) return;
+    itemStore.index('thumbnailHash').count(hash).onsuccess = (event) => {
+      if ((event.target as IDBRequest<number>).result === 0) {
+        transaction.objectStore(FILE_STORE_NAME).delete(hash);
+        onDeleted(hash);
+      }
+    };
+  };
+};
+
+// Store a file unless identical content is already there
+const putFileIfMissing = (transaction: IDBTransaction, file: StoredFile) => {
+  const fileStore = transaction.objectStore(FILE_STORE_NAME);
+  fileStore.get(file.hash).onsuccess = (e) => {
+    if (!(e.target as IDBRequest<StoredFile | undefined>).result) {
+      fileStore.put(file);
+    }
+  };
+};
+
+interface DerivedMedia {
+  mediaHash: string;
+  perceptualHash?: string;
+  thumbnail?: StoredFile;
+}
+
+// Everything computed from a media file before it's saved. Has to run before
+// the save transaction opens, awaiting inside one lets it commit early.
+const deriveMedia = async (item: MediaItem, blob: Blob): Promise<DerivedMedia> => {
+  // Only used to flag near-duplicates, so a file the canvas can't decode is still saved
+  const perceptualHash = item.type === 'image'
+    ? await computeDHash(blob).catch(e => {
+        console.warn(`Could not compute perceptual hash for ${item.id}`, e);
+        return undefined;
+      })
+    : undefined;
+
+  // Grid views fall back to the full file without one
+  let thumbnail: StoredFile | undefined;
+  try {
+    const thumbnailBlob = await generateThumbnail(blob, item.type);
+    thumbnail = { hash: await hashBlob(thumbnailBlob), blob: thumbnailBlob };
+  } catch (e) {
+    console.warn(`Could not generate thumbnail for ${item.id}`, e);
+  }
+
+  return { mediaHash: await hashBlob(blob), perceptualHash, thumbnail };
+};
+
+// Move every item using `oldHash` over to `blob` (stored as `newHash`, or
+// shared with an identical file already there) and drop the old file.
+const repointMediaFile = (db: IDBDatabase, oldHash: string, newHash: string, blob: Blob): Promise<void> => {
   return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = (error) => reject(error);
+    const transaction = db.transaction([STORE_NAME, FILE_STORE_NAME], 'readwrite');
+    putFileIfMissing(transaction, { hash: newHash, blob });
+    transaction.objectStore(STORE_NAME).index('mediaHash').openCursor(IDBKeyRange.only(oldHash)).onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, mediaHash: newHash });
+      cursor.continue();
+    };
+    if (oldHash !== newHash) transaction.objectStore(FILE_STORE_NAME).delete(oldHash);
+
+    transaction.oncomplete = () => {
+      revokeObjectUrl(oldHash);
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
+// Files carried over from before content hashing get their real hash in the
+// background, merging with an identical file if one is already stored.
+let legacyRehash: Promise<void> | null = null;
+
+const rehashLegacyFiles = async (db: IDBDatabase) => {
+  const legacyFiles = await new Promise<StoredFile[]>((resolve, reject) => {
+    const request = db.transaction(FILE_STORE_NAME, 'readonly').objectStore(FILE_STORE_NAME)
+      .getAll(IDBKeyRange.bound(LEGACY_HASH_PREFIX, `${LEGACY_HASH_PREFIX}\uffff`));
+    request.onsuccess = () => resolve(request.result as StoredFile[]);
+    request.onerror = () => reject(request.error);
+  });
+
+  for (const file of legacyFiles) {
+    await repointMediaFile(db, file.hash, await hashBlob(file.blob), file.blob);
+  }
+};
+
 // MIME Type Helpers
 const MIME_TO_EXT: Record<string, string> = {
   'image/jpeg': 'jpg',
@@ -45,6 +177,16 @@ const MIME_TO_EXT: Record<string, string> = {
   'video/webm': 'webm',
 };
 
+const EXT_TO_MIME: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+};
+
 const getExtension = (mimeType: string | null, url: string, itemType: 'image' | 'video'): string => {
   if (mimeType) {
     const cleanMime = mimeType.split(';')[0].trim().toLowerCase();
@@ -56,16 +198,328 @@ const getExtension = (mimeType: string | null, url: string, itemType: 'image' |
   return itemType === 'video' ? 'mp4' : 'jpg';
 };
 
+// JSZip hands back untyped blobs, so recover the MIME type from the file name
+const getMimeType = (path: string, itemType: 'image' | 'video'): string => {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  return EXT_TO_MIME[ext] || (itemType === 'video' ? 'video/mp4' : 'image/jpeg');
+};
+
+// Export Types
+export interface ExportProgress {
+  phase: 'collecting' | 'writing' | 'done';
+  percent: number;
+  currentFile?: string;
+}
+
+export interface ExportOptions {
+  packId?: string;     // Only items in this pack
+  itemIds?: string[];  // Only these items
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+interface ExportSink {
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+  maxBytes?: number;   // Set when the whole zip is held in memory until close
+}
+
+// Largest export the download fallback will build. Without a save dialog the
+// zip can't be streamed to disk, so the browser needs room for all of it at once.
+export const DOWNLOAD_EXPORT_LIMIT = 512 * 1024 * 1024;
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'pack';
+
+// Where the export stream goes. Browsers with the File System Access API write
+// straight to disk so memory stays flat; elsewhere the chunks are held until
+// the end and handed to a regular download, up to DOWNLOAD_EXPORT_LIMIT.
+const openExportSink = async (fileName: string): Promise<ExportSink | null> => {
+  if (window.showSaveFilePicker) {
+    try {
+      const handle = await window.showSaveFilePicker({
+        suggestedName: fileName,
+        types: [{ description: 'Game Pack', accept: { 'application/zip': ['.zip'] } }],
+      });
+      const writable = await handle.createWritable();
+      return {
+        write: (chunk) => writable.write(chunk),
+        close: () => writable.close(),
+        abort: () => writable.abort(),
+      };
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') return null;
+      // e.g. blocked inside an iframe, fall back to a download
+      console.warn("Save dialog unavailable, falling back to download", e);
+    }
+  }
+
+  let chunks: BlobPart[] = [];
+  return {
+    maxBytes: DOWNLOAD_EXPORT_LIMIT,
+    write: async (chunk) => { chunks.push(chunk as BlobPart); },
+    close: async () => {
+      const url = URL.createObjectURL(new Blob(chunks, { type: 'application/zip' }));
+      chunks = [];
+
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    },
+    abort: async () => { chunks = []; },
+  };
+};
+
+// Import Types
+export type ImportItemStatus = 'new' | 'changed' | 'unchanged' | 'conflict' | 'broken';
+export type ConflictResolution = 'skip' | 'overwrite' | 'keep-both';
+
+export interface ImportPreviewItem {
+  item: MediaItem;       // As it would be saved, pack already resolved
+  status: ImportItemStatus;
+  existing?: MediaItem;  // Stored item with the same id, for changed/conflict
+  mediaPath?: string;    // Path of the media file inside the zip
+  problems: string[];    // Why a broken item can't be imported
+}
+
+export interface ImportPreview {
+  fileName: string;
+  zip: JSZip;
+  packs: GamePack[];     // Packs the import would create or update
+  items: ImportPreviewItem[];
+}
+
+export interface ImportReport {
+  imported: number;
+  overwritten: number;
+  duplicated: number;
+  skipped: number;
+  unchanged: number;
+  failed: { title: string; reason: string }[];
+}
+
+export interface StorageUsage {
+  total: number;                   // Bytes of media in the database, each file counted once
+  items: Record<string, number>;   // Media size per item id, shared files count for every item
+  packs: Record<string, number>;   // Media size per pack id, each file counted once per pack
+}
+
+// Re-importing a pack updates it, an id clash with another pack is left alone unless told otherwise
+export const DEFAULT_RESOLUTIONS: Record<'changed' | 'conflict', ConflictResolution> = {
+  changed: 'overwrite',
+  conflict: 'skip',
+};
+
+const COMPARED_FIELDS: (keyof MediaItem)[] = ['type', 'isReal', 'title', 'explanation', 'tips', 'category', 'shortTip', 'aiModel', 'difficulty'];
+
+const hasItemChanged = (existing: MediaItem, incoming: MediaItem) =>
+  COMPARED_FIELDS.some(field => JSON.stringify(existing[field]) !== JSON.stringify(incoming[field]));
+
+// Pack Helpers
+export const createPack = (fields: Partial<GamePack> = {}): GamePack => ({
+  id: crypto.randomUUID(),
+  name: 'Untitled Pack',
+  description: '',
+  version: '1.0',
+  author: '',
+  createdAt: new Date().toISOString(),
+  enabled: true,
+  ...fields,
+});
+
+// The local install pack only gets stored once an admin toggles it,
+// until then show a stand-in whenever local items are present
+export const resolvePacks = (packs: GamePack[], items: MediaItem[]): GamePack[] => {
+  const hasLocalItems = items.some(item => item.packId === LOCAL_PACK_ID);
+  if (!hasLocalItems || packs.some(pack => pack.id === LOCAL_PACK_ID)) return packs;
+
+  return [...packs, createPack({
+    id: LOCAL_PACK_ID,
+    name: 'Local Install',
+    description: 'Loaded from game_data.json in the project root',
+  })];
+};
+
+// Items without a known pack stay playable, only an explicit disable hides them
+export const filterEnabledItems = (items: MediaItem[], packs: GamePack[]): MediaItem[] => {
+  const disabled = new Set(packs.filter(pack => !pack.enabled).map(pack => pack.id));
+  return items.filter(item => !item.packId || !disabled.has(item.packId));
+};
+
 export const CustomContentManager = {
-  async saveItem(item: MediaItem): Promise<void> {
+  // Media is passed separately and stored once per unique file (by SHA-256), the
+  // item record only keeps a url when it points somewhere outside the database
+  // (e.g. media/ files). Without new media the item keeps the file it already has.
+  async saveItem(item: MediaItem, media?: Blob): Promise<void> {
+    let blob = media;
+    if (!blob && item.url.startsWith('data:')) {
+      blob = dataUrlToBlob(item.url);
+    }
+    const storedUrl = (blob || item.url.startsWith('blob:')) ? '' : item.url;
+    const derived = blob ? await deriveMedia(item, blob) : undefined;
+
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, FILE_STORE_NAME], 'readwrite');
+      const itemStore = transaction.objectStore(STORE_NAME);
+      const deletedHashes: string[] = [];
+
+      if (blob && derived) {
+        // Identical media is already stored, just point at it
+        putFileIfMissing(transaction, { hash: derived.mediaHash, blob });
+        if (derived.thumbnail) putFileIfMissing(transaction, derived.thumbnail);
+      }
+
+      itemStore.get(item.id).onsuccess = (e) => {
+        const existing = (e.target as IDBRequest<MediaItem | undefined>).result;
+        const fields: Partial<MediaItem> = derived
+          ? { mediaHash: derived.mediaHash, perceptualHash: derived.perceptualHash, thumbnailHash: derived.thumbnail?.hash }
+          : {
+              mediaHash: existing?.mediaHash || item.mediaHash,
+              perceptualHash: existing?.perceptualHash ?? item.perceptualHash,
+              thumbnailHash: existing?.thumbnailHash || item.thumbnailHash,
+            };
+        // Thumbnail urls of stored items are resolved from their hash on load. One
+        // arriving with new media described where it was before (e.g. in a pack).
+        const thumbnailUrl = (fields.thumbnailHash || blob || item.thumbnailUrl?.startsWith('blob:')) ? undefined : item.thumbnailUrl;
+
+        // Ensure we mark it as custom when saving to DB
+        itemStore.put({ ...item, ...fields, url: storedUrl, thumbnailUrl, isCustom: true });
+        [existing?.mediaHash, existing?.thumbnailHash].forEach(previous => {
+          if (previous && previous !== fields.mediaHash && previous !== fields.thumbnailHash) {
+            deleteFileIfUnused(transaction, previous, hash => deletedHashes.push(hash));
+          }
+        });
+      };
+
+      transaction.oncomplete = () => {
+        deletedHashes.forEach(revokeObjectUrl);
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  async getMediaBlob(hash: string): Promise<Blob | null> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(FILE_STORE_NAME, 'readonly');
+      const request = transaction.objectStore(FILE_STORE_NAME).get(hash);
+      request.onsuccess = () => resolve((request.result as StoredFile | undefined)?.blob || null);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  // Backfill perceptual hashes computed outside saveItem (e.g. items stored
+  // before they existed). Ids that aren't in the database are ignored.
+  async setPerceptualHashes(hashes: Record<string, string>): Promise<void> {
     const db = await openDB();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(STORE_NAME, 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
-      // Ensure we mark it as custom when saving to DB
-      const request = store.put({ ...item, isCustom: true });
-      
-      request.onsuccess = () => resolve();
+      Object.entries(hashes).forEach(([id, perceptualHash]) => {
+        store.get(id).onsuccess = (e) => {
+          const record = (e.target as IDBRequest<MediaItem | undefined>).result;
+          if (record) store.put({ ...record, perceptualHash });
+        };
+      });
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  // Swap the stored file for a new version of the same media (e.g. recompressed),
+  // for every item that uses it
+  async replaceMediaFile(oldHash: string, blob: Blob): Promise<void> {
+    const newHash = await hashBlob(blob);
+    const db = await openDB();
+    await repointMediaFile(db, oldHash, newHash, blob);
+  },
+
+  // Thumbnails for stored items saved before they were generated, or whose
+  // generation failed. Returns how many were added.
+  async generateMissingThumbnails(onProgress?: (done: number, total: number) => void): Promise<number> {
+    const db = await openDB();
+    const items = await new Promise<MediaItem[]>((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+      request.onsuccess = () => resolve((request.result as MediaItem[]).filter(item => item.mediaHash && !item.thumbnailHash));
+      request.onerror = () => reject(request.error);
+    });
+
+    let generated = 0;
+    for (const [index, item] of items.entries()) {
+      onProgress?.(index, items.length);
+      const blob = await this.getMediaBlob(item.mediaHash!);
+      if (!blob) continue;
+
+      let thumbnail: StoredFile;
+      try {
+        const thumbnailBlob = await generateThumbnail(blob, item.type);
+        thumbnail = { hash: await hashBlob(thumbnailBlob), blob: thumbnailBlob };
+      } catch (e) {
+        console.warn(`Could not generate thumbnail for ${item.id}`, e);
+        continue;
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction([STORE_NAME, FILE_STORE_NAME], 'readwrite');
+        const itemStore = transaction.objectStore(STORE_NAME);
+        putFileIfMissing(transaction, thumbnail);
+        itemStore.get(item.id).onsuccess = (e) => {
+          const record = (e.target as IDBRequest<MediaItem | undefined>).result;
+          if (record) itemStore.put({ ...record, thumbnailHash: thumbnail.hash, thumbnailUrl: undefined });
+        };
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+      generated++;
+    }
+    onProgress?.(items.length, items.length);
+    return generated;
+  },
+
+  async getStorageUsage(): Promise<StorageUsage> {
+    const db = await openDB();
+    const [items, files] = await new Promise<[MediaItem[], StoredFile[]]>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, FILE_STORE_NAME], 'readonly');
+      const itemsRequest = transaction.objectStore(STORE_NAME).getAll();
+      const filesRequest = transaction.objectStore(FILE_STORE_NAME).getAll();
+      transaction.oncomplete = () => resolve([itemsRequest.result as MediaItem[], filesRequest.result as StoredFile[]]);
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    const fileSizes = new Map(files.map(file => [file.hash, file.blob.size]));
+    const usage: StorageUsage = {
+      total: files.reduce((sum, file) => sum + file.blob.size, 0),
+      items: {},
+      packs: {},
+    };
+    const packHashes = new Map<string, Set<string>>();
+    items.forEach(item => {
+      const size = item.mediaHash ? fileSizes.get(item.mediaHash) || 0 : 0;
+      usage.items[item.id] = size;
+
+      const packId = item.packId || '';
+      if (!packHashes.has(packId)) packHashes.set(packId, new Set());
+      const hashes = packHashes.get(packId)!;
+      if (item.mediaHash && !hashes.has(item.mediaHash)) {
+        hashes.add(item.mediaHash);
+        usage.packs[packId] = (usage.packs[packId] || 0) + size;
+      }
+    });
+    return usage;
+  },
+
+  // Stored items that use exactly this file
+  async findItemsByHash(hash: string): Promise<MediaItem[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readonly');
+      const request = transaction.objectStore(STORE_NAME).index('mediaHash').getAll(hash);
+      request.onsuccess = () => resolve(request.result as MediaItem[]);
       request.onerror = () => reject(request.error);
     });
   },
@@ -76,13 +530,31 @@ export const CustomContentManager = {
     try {
         const response = await fetch('/game_data.json');
         if (!response.ok) return [];
-        const data = await response.json();
+        let manifest: RawManifest;
+        try {
+            const data: unknown = await response.json();
+            manifest = upgradeManifest(data);
+        } catch (e) {
+            console.warn("Ignoring game_data.json:", e);
+            return [];
+        }
         
-        if (data.items && Array.isArray(data.items)) {
+        if (Array.isArray(manifest.items)) {
+            // Leave out items that would crash the game later, but keep the rest
+            const errors = validateManifest(manifest);
+            const invalid = new Set(errors.map(error => error.index));
+            errors.forEach(error => {
+                console.warn(`game_data.json item ${error.index ?? ''} (${error.itemId || 'no id'}): ${formatValidationError(error)}`);
+            });
+
             console.log("Loaded local game_data.json");
-            return data.items.map((item: MediaItem) => ({
+            // Whatever is left has passed the item schema
+            const rawItems: unknown[] = manifest.items;
+            const items = rawItems.filter((_, index) => !invalid.has(index)) as MediaItem[];
+            return items.map(item => ({
                 ...item,
-                isCustom: true // Treat these as custom content so they appear in manage
+                isCustom: true, // Treat these as custom content so they appear in manage
+                packId: LOCAL_PACK_ID
             }));
         }
         return [];
@@ -95,12 +567,31 @@ export const CustomContentManager = {
   async getAllItems(): Promise<MediaItem[]> {
     // 1. Load from IndexedDB (User Uploaded via Browser)
     const db = await openDB();
-    const dbItems = await new Promise<MediaItem[]>((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.getAll();
-      request.onsuccess = () => resolve(request.result as MediaItem[]);
-      request.onerror = () => reject(request.error);
+    const [dbItems, fileRecords] = await new Promise<[MediaItem[], StoredFile[]]>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, FILE_STORE_NAME], 'readonly');
+      const itemsRequest = transaction.objectStore(STORE_NAME).getAll();
+      const filesRequest = transaction.objectStore(FILE_STORE_NAME).getAll();
+      transaction.oncomplete = () => resolve([itemsRequest.result as MediaItem[], filesRequest.result as StoredFile[]]);
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    if (!legacyRehash && dbItems.some(item => item.mediaHash?.startsWith(LEGACY_HASH_PREFIX))) {
+      legacyRehash = rehashLegacyFiles(db).catch(e => console.error("Failed to hash legacy media", e));
+    }
+
+    // Resolve stored files to object URLs, and revoke any left over from files that are gone
+    const files = new Map(fileRecords.map(record => [record.hash, record.blob]));
+    Array.from(objectUrls.keys()).forEach(hash => {
+      if (!files.has(hash)) revokeObjectUrl(hash);
+    });
+    const resolvedItems = dbItems.map(item => {
+      const blob = item.mediaHash ? files.get(item.mediaHash) : undefined;
+      const thumbnail = item.thumbnailHash ? files.get(item.thumbnailHash) : undefined;
+      return {
+        ...item,
+        url: blob ? getObjectUrl(item.mediaHash!, blob) : item.url,
+        thumbnailUrl: thumbnail ? getObjectUrl(item.thumbnailHash!, thumbnail) : item.thumbnailUrl,
+      };
     });
 
     // 2. Load from Local File System (Manual Install in root folder)
@@ -109,27 +600,62 @@ export const CustomContentManager = {
     // 3. Merge, preferring DB items if IDs conflict
     const itemMap = new Map<string, MediaItem>();
     localItems.forEach(item => itemMap.set(item.id, item));
-    dbItems.forEach(item => itemMap.set(item.id, item));
+    resolvedItems.forEach(item => itemMap.set(item.id, item));
 
     return Array.from(itemMap.values());
   },
 
+  // Items from enabled packs only, this is the pool games are drawn from
+  async getPlayableItems(): Promise<MediaItem[]> {
+    const [items, packs] = await Promise.all([this.getAllItems(), PackManager.getAllPacks()]);
+    return filterEnabledItems(items, packs);
+  },
+
   async deleteItem(id: string): Promise<void> {
     const db = await openDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(id);
+      const transaction = db.transaction([STORE_NAME, FILE_STORE_NAME], 'readwrite');
+      const itemStore = transaction.objectStore(STORE_NAME);
+      const deletedHashes: string[] = [];
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      itemStore.get(id).onsuccess = (e) => {
+        const existing = (e.target as IDBRequest<MediaItem | undefined>).result;
+        itemStore.delete(id);
+        // Files stay as long as another item still uses them
+        [existing?.mediaHash, existing?.thumbnailHash].forEach(hash => {
+          if (hash) deleteFileIfUnused(transaction, hash, deleted => deletedHashes.push(deleted));
+        });
+      };
+
+      transaction.oncomplete = () => {
+        deletedHashes.forEach(revokeObjectUrl);
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
     });
   },
 
-  async exportGamePack(): Promise<void> {
+  // Streams the zip out chunk by chunk instead of building it in memory first.
+  // Resolves false if the admin cancelled the save dialog.
+  async exportGamePack(options: ExportOptions = {}): Promise<boolean> {
+    const { itemIds, packId, onProgress } = options;
+    const packs = await PackManager.getAllPacks();
+    const date = new Date().toISOString().slice(0,10);
+    const exportPack = packId ? packs.find(pack => pack.id === packId) : undefined;
+    const fileName = exportPack
+      ? `real-or-ai-${slugify(exportPack.name)}-${date}.zip`
+      : itemIds ? `real-or-ai-selection-${date}.zip` : `real-or-ai-pack-${date}.zip`;
+
+    // Ask for the destination first, the save dialog needs the click that started the export
+    const sink = await openExportSink(fileName);
+    if (!sink) return false;
+
     try {
-      // 1. Gather All Items (Custom Only)
-      const allItems = await this.getAllItems();
+      // 1. Gather the requested items
+      onProgress?.({ phase: 'collecting', percent: 0 });
+      const allItems = (await this.getAllItems()).filter(item =>
+        (!packId || item.packId === packId) && (!itemIds || itemIds.includes(item.id))
+      );
 
       if (allItems.length === 0) {
          throw new Error("No items to export");
@@ -139,54 +665,87 @@ export const CustomContentManager = {
       const zip = new JSZip();
       const mediaFolder = zip.folder("media");
       const processedItems: MediaItem[] = [];
+      // Identical files are only written once and shared in the manifest
+      const writtenFiles = new Map<string, string>();
+      let mediaBytes = 0;
+
+      // 3. Process Items. Stored blobs are only referenced here, their bytes
+      // aren't read until the zip stream reaches them.
+      for (const [index, item] of allItems.entries()) {
+        onProgress?.({ phase: 'collecting', percent: (index / allItems.length) * 100, currentFile: item.title });
+
+        // isCustom and the file hashes are internal, all are set again on import
+        const { isCustom, mediaHash, thumbnailHash, ...itemCopy } = item;
 
-      // 3. Process Items
-      for (const item of allItems) {
-        const itemCopy = { ...item };
-        let blob: Blob | null = null;
-        let mimeType: string | null = null;
-
-        if (item.url.startsWith('data:')) {
-            try {
-                const res = await fetch(item.url);
-                blob = await res.blob();
-                mimeType = blob.type;
-            } catch (e) {
-                console.error(`Failed to process data URL for ${item.id}`, e);
+        if (mediaHash && writtenFiles.has(mediaHash)) {
+            itemCopy.url = writtenFiles.get(mediaHash)!;
+        } else {
+            let blob: Blob | null = mediaHash ? await this.getMediaBlob(mediaHash) : null;
+            let mimeType: string | null = blob ? blob.type : null;
+
+            if (!blob && (item.url.startsWith('data:') || item.url.startsWith('media/'))) {
+                 // Data URLs or relative paths (from local install), try to fetch the file to bundle it
+                 try {
+                    const res = await fetch(item.url);
+                    blob = await res.blob();
+                    mimeType = blob.type;
+                 } catch (e) {
+                    console.error(`Failed to fetch local file ${item.url}`, e);
+                 }
             }
-        } else if (item.url.startsWith('media/')) {
-             // If it's already a relative path (from local install), try to fetch the file to bundle it
-             try {
-                const res = await fetch(item.url);
-                blob = await res.blob();
-                mimeType = blob.type;
-             } catch (e) {
-                console.error(`Failed to fetch local file ${item.url}`, e);
-             }
-        }
-        
-        // If we successfully got a blob, add to ZIP media folder
-        if (blob && mediaFolder) {
-            const ext = getExtension(mimeType, item.url, item.type);
-            const filename = `${item.id}.${ext}`;
-            
-            // Store file in the 'media/' folder inside the zip
-            mediaFolder.file(filename, blob);
             
-            // Update manifest URL to point to this relative path
-            // This works for both the importGamePack function AND if the user
-            // extracts this zip to their root folder manually.
-            itemCopy.url = `media/${filename}`;
+            // If we successfully got a blob, add to ZIP media folder
+            if (blob && mediaFolder) {
+                const ext = getExtension(mimeType, item.url, item.type);
+                const filename = `${item.id}.${ext}`;
+                
+                // Store file in the 'media/' folder inside the zip
+                mediaFolder.file(filename, blob);
+                mediaBytes += blob.size;
+                
+                // Update manifest URL to point to this relative path
+                // This works for both the import function AND if the user
+                // extracts this zip to their root folder manually.
+                itemCopy.url = `media/${filename}`;
+                if (mediaHash) writtenFiles.set(mediaHash, itemCopy.url);
+            }
+        }
+
+        // Thumbnails go to media/thumbs/ so a local install can use them too
+        if (thumbnailHash && writtenFiles.has(thumbnailHash)) {
+            itemCopy.thumbnailUrl = writtenFiles.get(thumbnailHash)!;
+        } else {
+            let thumbnail: Blob | null = thumbnailHash ? await this.getMediaBlob(thumbnailHash) : null;
+            if (!thumbnail && item.thumbnailUrl?.startsWith('media/')) {
+                thumbnail = await fetch(item.thumbnailUrl).then(res => res.blob()).catch(() => null);
+            }
+            if (thumbnail && mediaFolder) {
+                const filename = `thumbs/${item.id}.${getExtension(thumbnail.type, item.thumbnailUrl || '', 'image')}`;
+                mediaFolder.file(filename, thumbnail);
+                mediaBytes += thumbnail.size;
+                itemCopy.thumbnailUrl = `media/${filename}`;
+                if (thumbnailHash) writtenFiles.set(thumbnailHash, itemCopy.thumbnailUrl);
+            } else {
+                delete itemCopy.thumbnailUrl;
+            }
         }
         
-        processedItems.push(itemCopy);
+        processedItems.push(itemCopy as MediaItem);
+      }
+
+      // Entries are stored uncompressed, so the media is most of the zip
+      if (sink.maxBytes && mediaBytes > sink.maxBytes) {
+         throw new Error(`This export holds ${formatBytes(mediaBytes)} of media, more than the ${formatBytes(sink.maxBytes)} this browser can download in one go. Export a single pack or a selection, or use a browser with a save dialog (Chrome or Edge).`);
       }
 
       // 4. Create Manifest named game_data.json (standard for local install)
       // We also include data.json for backward compatibility with the import function
+      const usedPackIds = new Set(processedItems.map(item => item.packId));
+
       const exportData = {
-        version: 1,
-        timestamp: new Date().toISOString(),
+        version: MANIFEST_VERSION,
+        exportedAt: new Date().toISOString(),
+        packs: packs.filter(pack => usedPackIds.has(pack.id)),
         items: processedItems
       };
       
@@ -194,81 +753,360 @@ export const CustomContentManager = {
       zip.file("game_data.json", jsonStr); // For manual root install
       zip.file("data.json", jsonStr);      // For drag-and-drop import
       
-      // 5. Generate and Download ZIP
-      const content = await zip.generateAsync({ type: "blob" });
-      const url = URL.createObjectURL(content);
-      
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `real-or-ai-pack-${new Date().toISOString().slice(0,10)}.zip`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      // 5. Stream the ZIP to its destination. Media is already compressed, so
+      // entries are stored as-is, and the stream waits for each write to land.
+      await new Promise<void>((resolve, reject) => {
+        const stream = zip.generateInternalStream({ type: "uint8array", streamFiles: true, compression: "STORE" });
+        stream
+          .on('data', (chunk, metadata) => {
+            stream.pause();
+            onProgress?.({ phase: 'writing', percent: metadata.percent, currentFile: metadata.currentFile || undefined });
+            sink.write(chunk).then(() => stream.resume(), reject);
+          })
+          .on('error', reject)
+          .on('end', () => resolve());
+        stream.resume();
+      });
+
+      await sink.close();
+      onProgress?.({ phase: 'done', percent: 100 });
+      return true;
 
     } catch (error) {
       console.error("Export failed:", error);
+      await sink.abort();
       throw error;
     }
   },
 
-  async importGamePack(file: File): Promise<number> {
+  // Dry run: parse the zip and work out what importing it would do, without writing anything
+  async previewGamePack(file: File): Promise<ImportPreview> {
+    const zip = await JSZip.loadAsync(file);
+
+    // 1. Read Manifest (Try both names)
+    let manifestFile = zip.file("data.json");
+    if (!manifestFile) manifestFile = zip.file("game_data.json");
+
+    if (!manifestFile) throw new Error("Invalid Game Pack: missing data.json or game_data.json");
+
+    let parsed: unknown;
     try {
-        const zip = await JSZip.loadAsync(file);
-        
-        // 1. Read Manifest (Try both names)
-        let manifestFile = zip.file("data.json");
-        if (!manifestFile) manifestFile = zip.file("game_data.json");
+        parsed = JSON.parse(await manifestFile.async("string"));
+    } catch (e) {
+        throw new Error("Invalid Game Pack: manifest is not valid JSON");
+    }
+    // Older pack formats are converted to the current shape before anything else looks at them
+    const manifest = upgradeManifest(parsed);
 
-        if (!manifestFile) throw new Error("Invalid Game Pack: missing data.json or game_data.json");
-        
-        const manifestStr = await manifestFile.async("string");
-        const manifest = JSON.parse(manifestStr);
-        
-        if (!manifest.items || !Array.isArray(manifest.items)) {
-            throw new Error("Invalid Game Pack: corrupt data format");
+    const validationErrors = validateManifest(manifest);
+    const manifestErrors = validationErrors.filter(error => error.index === undefined);
+    if (manifestErrors.length > 0) {
+        throw new Error(`Invalid Game Pack: ${manifestErrors.map(formatValidationError).join('; ')}`);
+    }
+
+    // 2. Work out the packs. Items that don't belong to a pack listed in the
+    // manifest go into a pack named after the zip file. Its id comes from the
+    // name too, so importing the same file again updates that pack rather than
+    // reporting every item as a conflict with the first import.
+    const manifestPacks: GamePack[] = Array.isArray(manifest.packs) ? manifest.packs : [];
+    const knownPackIds = new Set(manifestPacks.map(pack => pack.id));
+    const fileName = file.name.replace(/\.zip$/i, '');
+    const filePack = createPack({ id: `zip-${slugify(fileName)}`, name: fileName });
+
+    const existingItems = new Map<string, MediaItem>((await this.getAllItems()).map(item => [item.id, item]));
+    const seenIds = new Set<string>();
+
+    // 3. Classify every item
+    // The validator has checked that items is an array, each item only counts as
+    // a MediaItem once it has no problems (broken ones just go into the report)
+    const rawItems: unknown[] = Array.isArray(manifest.items) ? manifest.items : [];
+    const items: ImportPreviewItem[] = rawItems.map((raw, index) => {
+      const fields = isRecord(raw) ? raw : {};
+      const packId = typeof fields.packId === 'string' && knownPackIds.has(fields.packId) ? fields.packId : filePack.id;
+      const item = { ...fields, packId } as MediaItem;
+      const problems = validationErrors.filter(error => error.index === index).map(formatValidationError);
+
+      if (item.id && seenIds.has(item.id)) {
+        problems.push('Duplicate id in manifest');
+      }
+      seenIds.add(item.id);
+
+      // A missing url has already been reported by the validator
+      let mediaPath: string | undefined;
+      const url = typeof item.url === 'string' ? item.url : '';
+      if (url.startsWith('media/')) {
+        mediaPath = url;
+        if (!zip.file(mediaPath)) problems.push(`Media file ${mediaPath} not found in zip`);
+      } else if (url && !url.startsWith('data:')) {
+        problems.push(`Media must be inside the zip's media/ folder, got "${item.url}"`);
+      }
+
+      if (problems.length > 0) {
+        return { item, status: 'broken', mediaPath, problems };
+      }
+
+      const existing = existingItems.get(item.id);
+      let status: ImportItemStatus = 'new';
+      if (existing) {
+        if (existing.packId !== item.packId) {
+          status = 'conflict';
+        } else {
+          status = hasItemChanged(existing, item) ? 'changed' : 'unchanged';
         }
+      }
 
-        let count = 0;
+      return { item, status, existing, mediaPath, problems };
+    });
 
-        // 2. Process and Save Items
-        for (const item of manifest.items) {
-            // Strictly check for files located in the media/ folder
-            if (item.url.startsWith("media/")) {
-                const relativePath = item.url; // e.g., "media/123.jpg"
-                
-                // Try to find the file using the exact path in the zip
-                let mediaFile = zip.file(relativePath);
-                
-                if (mediaFile) {
-                    const blob = await mediaFile.async("blob");
-                    
-                    // Convert to Base64 Data URL for storage in IndexedDB
-                    // This "updates the DB appropriately" by simulating the file storage
-                    const dataUrl = await new Promise<string>((resolve, reject) => {
-                        const reader = new FileReader();
-                        reader.onload = () => resolve(reader.result as string);
-                        reader.onerror = reject;
-                        reader.readAsDataURL(blob);
-                    });
-                    
-                    item.url = dataUrl;
-                    await this.saveItem(item);
-                    count++;
-                } else {
-                    console.warn(`File ${relativePath} referenced in manifest but not found in zip media folder.`);
-                }
-            } else if (item.url.startsWith("data:")) {
-                // If it's already a data URL in the JSON (unlikely for proper packs, but possible)
-                await this.saveItem(item);
-                count++;
-            }
+    const usesFilePack = items.some(entry => entry.item.packId === filePack.id);
+
+    return {
+      fileName: file.name,
+      zip,
+      packs: usesFilePack ? [...manifestPacks, filePack] : manifestPacks,
+      items,
+    };
+  },
+
+  // Write a previewed pack. Conflicting and changed items follow `resolutions`
+  // (keyed by item id), falling back to DEFAULT_RESOLUTIONS.
+  async applyGamePackImport(preview: ImportPreview, resolutions: Record<string, ConflictResolution> = {}): Promise<ImportReport> {
+    const report: ImportReport = { imported: 0, overwritten: 0, duplicated: 0, skipped: 0, unchanged: 0, failed: [] };
+    const importedPackIds = new Set<string>();
+
+    for (const entry of preview.items) {
+      if (entry.status === 'broken') {
+        report.failed.push({ title: entry.item.title || entry.item.id || 'Untitled', reason: entry.problems.join('; ') });
+        continue;
+      }
+      if (entry.status === 'unchanged') {
+        report.unchanged++;
+        continue;
+      }
+
+      const resolution = entry.status === 'new'
+        ? 'overwrite'
+        : resolutions[entry.item.id] || DEFAULT_RESOLUTIONS[entry.status];
+
+      if (resolution === 'skip') {
+        report.skipped++;
+        continue;
+      }
+
+      try {
+        const item = { ...entry.item };
+        if (resolution === 'keep-both') {
+          item.id = crypto.randomUUID();
         }
 
-        return count;
-    } catch (error) {
-        console.error("Import failed:", error);
-        throw error;
+        let blob: Blob | undefined;
+        if (entry.mediaPath) {
+          const data = await preview.zip.file(entry.mediaPath)!.async("blob");
+          blob = new Blob([data], { type: getMimeType(entry.mediaPath, item.type) });
+          // Media goes to the blob store as-is, no base64 round trip
+          item.url = '';
+        }
+
+        await this.saveItem(item, blob);
+        if (item.packId) importedPackIds.add(item.packId);
+
+        if (entry.status === 'new') report.imported++;
+        else if (resolution === 'keep-both') report.duplicated++;
+        else report.overwritten++;
+      } catch (error) {
+        console.error(`Failed to import ${entry.item.id}`, error);
+        report.failed.push({ title: entry.item.title || entry.item.id, reason: error instanceof Error ? error.message : 'Could not be saved' });
+      }
     }
+
+    // Only create packs that actually received items, but keep an admin's enabled/disabled choice
+    const existingPacks = await PackManager.getAllPacks();
+    for (const pack of preview.packs) {
+      if (!importedPackIds.has(pack.id)) continue;
+      const existing = existingPacks.find(p => p.id === pack.id);
+      await PackManager.savePack(createPack({ ...pack, enabled: existing ? existing.enabled : true }));
+    }
+
+    return report;
   }
 };
+
+export const PackManager = {
+  async getAllPacks(): Promise<GamePack[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(PACK_STORE_NAME, 'readonly');
+      const request = transaction.objectStore(PACK_STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result as GamePack[]);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  async savePack(pack: GamePack): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(PACK_STORE_NAME, 'readwrite');
+      const request = transaction.objectStore(PACK_STORE_NAME).put(pack);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  async setPackEnabled(pack: GamePack, enabled: boolean): Promise<void> {
+    await this.savePack({ ...pack, enabled });
+  },
+
+  // Removes the pack together with every item (and stored media) in it
+  async deletePack(id: string): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, FILE_STORE_NAME, PACK_STORE_NAME], 'readwrite');
+      const usedHashes = new Set<string>();
+      const deletedHashes: string[] = [];
+
+      transaction.objectStore(STORE_NAME).index('packId').openCursor(IDBKeyRange.only(id)).onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) {
+          // Files shared with items in other packs are kept
+          usedHashes.forEach(hash => deleteFileIfUnused(transaction, hash, deleted => deletedHashes.push(deleted)));
+          return;
+        }
+
+        const record = cursor.value as MediaItem;
+        if (record.mediaHash) usedHashes.add(record.mediaHash);
+        if (record.thumbnailHash) usedHashes.add(record.thumbnailHash);
+        cursor.delete();
+        cursor.continue();
+      };
+      transaction.objectStore(PACK_STORE_NAME).delete(id);
+
+      transaction.oncomplete = () => {
+        deletedHashes.forEach(revokeObjectUrl);
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+};
+
+export const SettingsManager = {
+  // Object settings are merged over their defaults, so fields added later
+  // still get a value for admins who saved before they existed
+  async get<T>(key: string, defaults: T): Promise<T> {
+    const db = await openDB();
+    const stored = await new Promise<StoredSetting | undefined>((resolve, reject) => {
+      const transaction = db.transaction(SETTINGS_STORE_NAME, 'readonly');
+      const request = transaction.objectStore(SETTINGS_STORE_NAME).get(key);
+      request.onsuccess = () => resolve(request.result as StoredSetting | undefined);
+      request.onerror = () => reject(request.error);
+    });
+    if (stored === undefined) return defaults;
+    return typeof defaults === 'object' && defaults !== null && !Array.isArray(defaults)
+      ? { ...defaults, ...(stored.value as Partial<T>) }
+      : stored.value as T;
+  },
+
+  async set<T>(key: string, value: T): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(SETTINGS_STORE_NAME, 'readwrite');
+      const request = transaction.objectStore(SETTINGS_STORE_NAME).put({ key, value } as StoredSetting);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  },
+};
+
+// Session Types
+// What an answered item was when the game was played, so the record still
+// makes sense after the item is edited or deleted
+export type SessionItem = Pick<MediaItem, 'id' | 'type' | 'isReal' | 'category' | 'aiModel' | 'packId'>;
+
+export interface GameSession {
+  id: string;
+  startedAt: number;  // Epoch ms
+  endedAt: number;
+  duration: number;   // Seconds
+  seed: number;
+  score: number;
+  adaptive: boolean;
+  items: SessionItem[];
+  answers: UserAnswer[];
+  events: GameEvent[];
+}
+
+// Adds a game to the per-item totals
+const addToItemStats = (store: IDBObjectStore, events: GameEvent[]) => {
+  collectItemStats(events).forEach(delta => {
+    store.get(delta.itemId).onsuccess = (e) => {
+      const existing = (e.target as IDBRequest<ItemStats | undefined>).result;
+      store.put(existing ? mergeItemStats(existing, delta) : delta);
+    };
+  });
+};
+
+export const ItemStatsManager = {
+  async getAll(): Promise<ItemStats[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(ITEM_STATS_STORE_NAME, 'readonly');
+      const request = transaction.objectStore(ITEM_STATS_STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result as ItemStats[]);
+      request.onerror = () => reject(request.error);
+    });
+  },
+};
+
+export const SessionManager = {
+  // Stores the session and adds it to the per-item totals in one go
+  async saveSession(session: GameSession): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SESSION_STORE_NAME, ITEM_STATS_STORE_NAME], 'readwrite');
+      transaction.objectStore(SESSION_STORE_NAME).put(session);
+      addToItemStats(transaction.objectStore(ITEM_STATS_STORE_NAME), session.events);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  // Oldest first. Either bound can be left out.
+  async getSessions(from?: number, to?: number): Promise<GameSession[]> {
+    const range = from !== undefined && to !== undefined ? IDBKeyRange.bound(from, to)
+      : from !== undefined ? IDBKeyRange.lowerBound(from)
+      : to !== undefined ? IDBKeyRange.upperBound(to)
+      : undefined;
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(SESSION_STORE_NAME, 'readonly');
+      const request = transaction.objectStore(SESSION_STORE_NAME).index('endedAt').getAll(range);
+      request.onsuccess = () => resolve(request.result as GameSession[]);
+      request.onerror = () => reject(request.error);
+    });
+  },
+};
+
+export const LeaderboardManager = {
+  // Every entry for one game duration, or for all of them. Boards are ranked
+  // from these with rankEntries().
+  async getEntries(duration?: number): Promise<LeaderboardEntry[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(LEADERBOARD_STORE_NAME, 'readonly');
+      const store = transaction.objectStore(LEADERBOARD_STORE_NAME);
+      const request = duration === undefined ? store.getAll() : store.index('duration').getAll(duration);
+      request.onsuccess = () => resolve(request.result as LeaderboardEntry[]);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  async addEntry(entry: LeaderboardEntry): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(LEADERBOARD_STORE_NAME, 'readwrite');
+      const request = transaction.objectStore(LEADERBOARD_STORE_NAME).put(entry);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  },
+};
@@ -0,0 +1,80 @@
+import { MediaItem, ItemStats } from '../types';
+
+// ==========================================
+// ITEM DIFFICULTY
+// ==========================================
+// Items are rated 1 (very easy) to 5 (very hard). An admin can set the rating
+// by hand, otherwise it's estimated from how often players got the item right
+// on this kiosk (see ItemStatsManager), and unplayed items count as medium.
+//
+// Adaptive mode starts a game on easy items and moves the level up one step
+// every few correct answers in a row, and down one step after every miss. The
+// next item is the closest match to the level among the next few in the round,
+// so the real/AI balance from utils/sampler.ts is mostly kept.
+// ==========================================
+
+export const DIFFICULTY_LEVELS = [1, 2, 3, 4, 5];
+
+export const DIFFICULTY_LABELS: Record<number, string> = {
+  1: 'Very Easy',
+  2: 'Easy',
+  3: 'Medium',
+  4: 'Hard',
+  5: 'Very Hard',
+};
+
+export const DEFAULT_DIFFICULTY = 3;
+
+// Fewer answers than this say more about who played than about the item
+export const MIN_ANSWERS_FOR_ESTIMATE = 5;
+
+export interface DifficultyConfig {
+  adaptive: boolean;
+}
+
+export const DIFFICULTY_SETTINGS_KEY = 'difficulty';
+
+export const DEFAULT_DIFFICULTY_CONFIG: DifficultyConfig = {
+  adaptive: false,
+};
+
+const START_LEVEL = 2;
+const STREAK_PER_LEVEL = 2;
+const ADAPTIVE_LOOKAHEAD = 6;
+
+// Lowest share of correct answers for each level, hardest last
+const ACCURACY_THRESHOLDS: [number, number][] = [[0.85, 1], [0.7, 2], [0.5, 3], [0.3, 4]];
+
+export const clampDifficulty = (level: number) =>
+  Math.min(DIFFICULTY_LEVELS[DIFFICULTY_LEVELS.length - 1], Math.max(DIFFICULTY_LEVELS[0], Math.round(level)));
+
+// null until the item has been answered often enough
+export const estimateDifficulty = (stats?: ItemStats): number | null => {
+  if (!stats || stats.answered < MIN_ANSWERS_FOR_ESTIMATE) return null;
+  const accuracy = stats.correct / stats.answered;
+  return ACCURACY_THRESHOLDS.find(([minimum]) => accuracy >= minimum)?.[1] ?? 5;
+};
+
+export const resolveDifficulty = (item: MediaItem, stats?: ItemStats): number =>
+  item.difficulty ?? estimateDifficulty(stats) ?? DEFAULT_DIFFICULTY;
+
+// A game started on a streak (from the Admin test options) starts as if it had been earned
+export const initialDifficultyLevel = (streak: number) =>
+  clampDifficulty(START_LEVEL + Math.floor(streak / STREAK_PER_LEVEL));
+
+// Level for the next item, after an answer that left the player on `streak`
+export const nextDifficultyLevel = (level: number, streak: number, isCorrect: boolean): number => {
+  if (!isCorrect) return clampDifficulty(level - 1);
+  return streak > 0 && streak % STREAK_PER_LEVEL === 0 ? clampDifficulty(level + 1) : level;
+};
+
+// Position within `upcoming` of the item to show next. Ties go to whichever
+// comes first, so with equal difficulties the round order is unchanged.
+export const pickAdaptiveIndex = (upcoming: MediaItem[], difficulties: Record<string, number>, level: number): number => {
+  let best = 0;
+  const distance = (item: MediaItem) => Math.abs((difficulties[item.id] ?? DEFAULT_DIFFICULTY) - level);
+  upcoming.slice(0, ADAPTIVE_LOOKAHEAD).forEach((item, index) => {
+    if (distance(item) < distance(upcoming[best])) best = index;
+  });
+  return best;
+};
@@ -0,0 +1,77 @@
+import { MediaItem, MediaType } from '../types';
+
+// ==========================================
+// GAME SETUP FILTERS
+// ==========================================
+// Narrow the playable pool down to some categories, media types or AI models.
+// An empty list means "no restriction". The AI model filter only applies to
+// AI items, real photos and videos have no model and always stay in so there's
+// something to tell the fakes apart from.
+// ==========================================
+
+export interface GameFilters {
+  categories: string[];
+  mediaTypes: MediaType[];
+  aiModels: string[];
+}
+
+export const NO_FILTERS: GameFilters = { categories: [], mediaTypes: [], aiModels: [] };
+
+export const GAME_FILTERS_KEY = 'gameFilters';
+
+export const MEDIA_TYPES: MediaType[] = ['image', 'video'];
+
+// Fewer items than this and a 30 second game can run out before the timer does
+export const MIN_GAME_ITEMS = 10;
+
+// What the filters can choose from, in a fixed order (challenge codes rely on it)
+export interface FilterCatalog {
+  categories: string[];
+  aiModels: string[];
+}
+
+const compareStrings = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+export const buildFilterCatalog = (items: MediaItem[]): FilterCatalog => ({
+  categories: Array.from(new Set(items.map(item => item.category).filter(Boolean))).sort(compareStrings),
+  aiModels: Array.from(new Set(items.filter(item => !item.isReal).map(item => item.aiModel?.trim()).filter((model): model is string => !!model))).sort(compareStrings),
+});
+
+export const hasFilters = (filters: GameFilters) =>
+  filters.categories.length > 0 || filters.mediaTypes.length > 0 || filters.aiModels.length > 0;
+
+export const filterItems = (items: MediaItem[], filters: GameFilters): MediaItem[] =>
+  items.filter(item =>
+    (filters.mediaTypes.length === 0 || filters.mediaTypes.includes(item.type)) &&
+    (filters.categories.length === 0 || filters.categories.includes(item.category)) &&
+    (filters.aiModels.length === 0 || item.isReal || filters.aiModels.includes(item.aiModel?.trim() || ''))
+  );
+
+// Selections that no longer exist (a pack was disabled since) are dropped
+export const pruneFilters = (filters: GameFilters, catalog: FilterCatalog): GameFilters => ({
+  categories: filters.categories.filter(category => catalog.categories.includes(category)),
+  mediaTypes: filters.mediaTypes.filter(type => MEDIA_TYPES.includes(type)),
+  aiModels: filters.aiModels.filter(model => catalog.aiModels.includes(model)),
+});
+
+// One flag per media type, category and model, in catalog order. Used to fit
+// the filters into a challenge code.
+export const filtersToFlags = (filters: GameFilters, catalog: FilterCatalog): boolean[] => [
+  ...MEDIA_TYPES.map(type => filters.mediaTypes.includes(type)),
+  ...catalog.categories.map(category => filters.categories.includes(category)),
+  ...catalog.aiModels.map(model => filters.aiModels.includes(model)),
+];
+
+// null if a flag is set past the end of the catalog, i.e. it came from a kiosk with other content
+export const flagsToFilters = (flags: boolean[], catalog: FilterCatalog): GameFilters | null => {
+  const categoriesStart = MEDIA_TYPES.length;
+  const modelsStart = categoriesStart + catalog.categories.length;
+  const end = modelsStart + catalog.aiModels.length;
+  if (flags.slice(end).some(Boolean)) return null;
+
+  return {
+    mediaTypes: MEDIA_TYPES.filter((_, i) => flags[i]),
+    categories: catalog.categories.filter((_, i) => flags[categoriesStart + i]),
+    aiModels: catalog.aiModels.filter((_, i) => flags[modelsStart + i]),
+  };
+};
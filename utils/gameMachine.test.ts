@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { MediaItem } from '../types';
+import { DEFAULT_SCORING_CONFIG } from './scoring';
+import { BONUS_ROUND_MS, GameAction, GameSetup, createGameState, gameReducer, replayGame } from './gameMachine';
+
+const item = (id: string, isReal: boolean): MediaItem => ({
+  id,
+  type: 'image',
+  url: `media/${id}.jpg`,
+  isReal,
+  title: id,
+  explanation: '',
+  tips: [],
+  category: 'Test',
+});
+
+const ITEMS = [item('real-1', true), item('ai-1', false), item('real-2', true)];
+const BONUS_PAIR = [item('bonus-real', true), item('bonus-ai', false)];
+
+// No speed bonus, so every correct answer is worth basePoints times the multiplier
+const SCORING = { ...DEFAULT_SCORING_CONFIG, bonusRoundQualifier: 2, speedBonus: {} };
+
+const setup = (overrides: Partial<GameSetup> = {}): GameSetup => ({
+  items: ITEMS,
+  duration: 30,
+  scoring: SCORING,
+  bonusPair: BONUS_PAIR,
+  seed: 42,
+  startedAt: 1000,
+  ...overrides,
+});
+
+// Shows the current item and answers it `timeTaken` ms later
+const play = (at: number, guessedReal: boolean, timeTaken = 1000): GameAction[] => [
+  { type: 'ITEM_SHOWN', at },
+  { type: 'ANSWER', guessedReal, timeTaken, at: at + timeTaken },
+];
+
+const eventTypes = (actions: GameAction[], gameSetup = setup()) =>
+  replayGame(gameSetup, actions).events.map(event => event.type);
+
+describe('replayGame', () => {
+  it('plays through every item and ends without a bonus round', () => {
+    const state = replayGame(setup(), [
+      ...play(2000, true),
+      { type: 'NEXT', at: 4000 },
+      ...play(5000, true),
+      { type: 'NEXT', at: 7000 },
+      ...play(8000, false),
+      { type: 'NEXT', at: 10000 },
+    ]);
+
+    expect(state.phase).toBe('ended');
+    expect(state.answers.map(answer => [answer.itemId, answer.isCorrect, answer.pointsEarned])).toEqual([
+      ['real-1', true, 100],
+      ['ai-1', false, 0],
+      ['real-2', false, 0],
+    ]);
+    expect(state.score).toBe(100);
+    expect(state.streak).toBe(0);
+    expect(state.events).toEqual([
+      { type: 'game_started', at: 1000, itemIds: ['real-1', 'ai-1', 'real-2'], duration: 30, seed: 42, adaptive: false },
+      { type: 'item_shown', at: 2000, index: 0, itemId: 'real-1' },
+      { type: 'answered', at: 3000, index: 0, answer: state.answers[0] },
+      { type: 'streak_changed', at: 3000, from: 0, to: 1 },
+      { type: 'item_shown', at: 5000, index: 1, itemId: 'ai-1' },
+      { type: 'answered', at: 6000, index: 1, answer: state.answers[1] },
+      { type: 'streak_changed', at: 6000, from: 1, to: 0 },
+      { type: 'item_shown', at: 8000, index: 2, itemId: 'real-2' },
+      { type: 'answered', at: 9000, index: 2, answer: state.answers[2] },
+      { type: 'game_ended', at: 10000, score: 100 },
+    ]);
+  });
+
+  it('gives the same state for the same actions', () => {
+    const actions: GameAction[] = [...play(2000, true), { type: 'NEXT', at: 4000 }, { type: 'TICK', elapsedMs: 30000, at: 31000 }];
+    expect(replayGame(setup(), actions)).toEqual(replayGame(setup(), actions));
+  });
+
+  it('ignores actions that do not fit the current phase', () => {
+    const state = replayGame(setup(), [
+      { type: 'NEXT', at: 1500 },
+      ...play(2000, true),
+      { type: 'ITEM_SHOWN', at: 3100 },
+      { type: 'ANSWER', guessedReal: false, timeTaken: 1500, at: 3500 },
+      { type: 'BONUS_ANSWER', itemId: 'bonus-ai', timeTaken: 500, at: 3600 },
+    ]);
+    expect(state.phase).toBe('feedback');
+    expect(state.answers).toHaveLength(1);
+    expect(state.events.filter(event => event.type === 'item_shown')).toHaveLength(1);
+  });
+});
+
+describe('item_shown', () => {
+  it('is logged with the answer when the item was answered before it finished loading', () => {
+    const state = replayGame(setup(), [
+      { type: 'ANSWER', guessedReal: true, timeTaken: 0, at: 2500 },
+      { type: 'ITEM_SHOWN', at: 2600 },
+      { type: 'NEXT', at: 4000 },
+      ...play(5000, false),
+    ]);
+    expect(state.events.filter(event => event.type === 'item_shown' || event.type === 'answered').map(event => [event.type, event.at])).toEqual([
+      ['item_shown', 2500],
+      ['answered', 2500],
+      ['item_shown', 5000],
+      ['answered', 6000],
+    ]);
+  });
+});
+
+describe('end of the regular round', () => {
+  const earnBonus: GameAction[] = [
+    ...play(2000, true),
+    { type: 'NEXT', at: 4000 },
+    ...play(5000, false),
+  ];
+
+  it('runs the bonus round before the game ends when time is up', () => {
+    const state = replayGame(setup(), [
+      ...earnBonus,
+      { type: 'TICK', elapsedMs: 30000, at: 31000 },
+      { type: 'BONUS_ANSWER', itemId: 'bonus-ai', timeTaken: 2500, at: 33500 },
+      { type: 'FINISH', at: 36000 },
+    ]);
+
+    expect(state.events.map(event => event.type)).toEqual([
+      'game_started',
+      'item_shown', 'answered', 'streak_changed',
+      'item_shown', 'answered', 'streak_changed', 'bonus_earned',
+      'time_up', 'bonus_started', 'bonus_finished', 'game_ended',
+    ]);
+    expect(state.events.slice(-4)).toEqual([
+      { type: 'time_up', at: 31000 },
+      { type: 'bonus_started', at: 31000, itemIds: ['bonus-real', 'bonus-ai'] },
+      { type: 'bonus_finished', at: 33500, result: 'success', answer: state.answers[2] },
+      { type: 'game_ended', at: 36000, score: 1200 },
+    ]);
+    expect(state.answers.map(answer => answer.pointsEarned)).toEqual([100, 100, 1000]);
+    expect(state.score).toBe(1200);
+    expect(state.phase).toBe('ended');
+  });
+
+  it('runs the bonus round when the items run out', () => {
+    const state = replayGame(setup(), [...earnBonus, { type: 'NEXT', at: 7000 }, ...play(8000, true), { type: 'NEXT', at: 10000 }]);
+    expect(state.phase).toBe('bonus');
+    expect(state.events[state.events.length - 1]).toEqual({ type: 'bonus_started', at: 10000, itemIds: ['bonus-real', 'bonus-ai'] });
+    expect(state.events.map(event => event.type)).not.toContain('time_up');
+  });
+
+  it('ends the game straight after time_up when no bonus was earned', () => {
+    const state = replayGame(setup(), [...play(2000, true), { type: 'TICK', elapsedMs: 30000, at: 31000 }]);
+    expect(state.phase).toBe('ended');
+    expect(state.events.slice(-2)).toEqual([
+      { type: 'time_up', at: 31000 },
+      { type: 'game_ended', at: 31000, score: 100 },
+    ]);
+  });
+
+  it('ends the game when a bonus was earned but there is no pair to show', () => {
+    const types = eventTypes([...earnBonus, { type: 'TICK', elapsedMs: 30000, at: 31000 }], setup({ bonusPair: [] }));
+    expect(types.slice(-3)).toEqual(['bonus_earned', 'time_up', 'game_ended']);
+  });
+
+  it('fails the bonus round when its clock runs out', () => {
+    const state = replayGame(setup({ forceBonusRound: true }), [
+      { type: 'TICK', elapsedMs: 30000, at: 31000 },
+      { type: 'TICK', elapsedMs: BONUS_ROUND_MS - 1, at: 40999 },
+      { type: 'TICK', elapsedMs: 1, at: 41000 },
+      { type: 'BONUS_ANSWER', itemId: 'bonus-ai', timeTaken: 500, at: 41500 },
+      { type: 'FINISH', at: 43000 },
+    ]);
+    expect(state.bonus).toMatchObject({ timeLeftMs: 0, result: 'fail', pickedId: null });
+    expect(state.events.map(event => event.type).slice(1)).toEqual(['time_up', 'bonus_started', 'bonus_finished', 'game_ended']);
+    expect(state.score).toBe(0);
+  });
+});
+
+describe('createGameState', () => {
+  it('earns the bonus round up front from a carried-over streak', () => {
+    const state = createGameState(setup({ initialStreak: 2 }));
+    expect(state.earnedBonus).toBe(true);
+    expect(gameReducer(state, { type: 'TICK', elapsedMs: 30000, at: 31000 }).phase).toBe('bonus');
+  });
+});
@@ -0,0 +1,240 @@
+import { MediaItem, UserAnswer, ScoringConfig } from '../types';
+import { scoreAnswer, scoreBonusAnswer, isBonusRoundEarned } from './scoring';
+import { initialDifficultyLevel, nextDifficultyLevel, pickAdaptiveIndex } from './difficulty';
+
+// ==========================================
+// GAME SESSION STATE MACHINE
+// ==========================================
+// The whole game loop as a pure reducer: GameScreen only dispatches what the
+// player did and how much time passed, and renders the state that comes back.
+// Anything random (item order, the bonus pair) or clock-based (timestamps,
+// decision times) arrives with the action, so feeding the same actions into
+// the same setup always ends in the same state. Every transition also appends
+// to `events`, a plain JSON log of the session.
+//
+// In adaptive mode (setup.difficulties is set) the items after the current one
+// are reordered as the player's level changes, see utils/difficulty.ts.
+//
+//   playing --ANSWER--> feedback --NEXT--> playing ...
+//      |                   |
+//      +-- out of time or items --> bonus (if earned) --FINISH--> ended
+//                                 \-> ended
+// ==========================================
+
+export const BONUS_ROUND_MS = 10000;
+
+export type GamePhase = 'playing' | 'feedback' | 'bonus' | 'ended';
+
+export interface GameSetup {
+  items: MediaItem[];           // In play order, the starting order in adaptive mode
+  duration: number;             // Seconds
+  scoring: ScoringConfig;
+  bonusPair?: MediaItem[];      // The real and the AI item, in display order
+  seed?: number;                // What the order and bonus pair were drawn with, see utils/random.ts
+  initialStreak?: number;
+  forceBonusRound?: boolean;
+  difficulties?: Record<string, number>; // By item id, turns on adaptive mode
+  startedAt: number;            // Epoch ms
+}
+
+export interface BonusRoundState {
+  items: MediaItem[];
+  timeLeftMs: number;
+  result: 'success' | 'fail' | null;
+  pickedId: string | null;
+}
+
+export type GameEvent =
+  | { type: 'game_started'; at: number; itemIds: string[]; duration: number; seed?: number; adaptive?: boolean }
+  | { type: 'item_shown'; at: number; index: number; itemId: string }
+  | { type: 'answered'; at: number; index: number; answer: UserAnswer }
+  | { type: 'streak_changed'; at: number; from: number; to: number }
+  | { type: 'bonus_earned'; at: number }
+  | { type: 'time_up'; at: number }
+  | { type: 'bonus_started'; at: number; itemIds: string[] }
+  | { type: 'bonus_finished'; at: number; result: 'success' | 'fail'; answer?: UserAnswer }
+  | { type: 'game_ended'; at: number; score: number };
+
+export interface GameSessionState {
+  setup: GameSetup;
+  phase: GamePhase;
+  items: MediaItem[];           // Play order so far, the rest may still move in adaptive mode
+  difficultyLevel: number;      // Adaptive mode only
+  currentIndex: number;
+  shownIndex: number;           // Last item reported on screen, -1 before the first
+  timeLeftMs: number;
+  score: number;
+  streak: number;
+  earnedBonus: boolean;
+  answers: UserAnswer[];
+  bonus: BonusRoundState | null;
+  events: GameEvent[];
+}
+
+export type GameAction =
+  | { type: 'ITEM_SHOWN'; at: number }
+  | { type: 'TICK'; elapsedMs: number; at: number }
+  | { type: 'ANSWER'; guessedReal: boolean; timeTaken: number; stallTime?: number; at: number }
+  | { type: 'NEXT'; at: number }
+  | { type: 'BONUS_ANSWER'; itemId: string; timeTaken: number; at: number }
+  | { type: 'FINISH'; at: number };
+
+// Brings the best match for the player's level forward to position `index`
+const arrangeFrom = (items: MediaItem[], index: number, setup: GameSetup, level: number): MediaItem[] => {
+  if (!setup.difficulties || index >= items.length) return items;
+  const picked = index + pickAdaptiveIndex(items.slice(index), setup.difficulties, level);
+  if (picked === index) return items;
+  const arranged = [...items];
+  const [item] = arranged.splice(picked, 1);
+  arranged.splice(index, 0, item);
+  return arranged;
+};
+
+export const createGameState = (setup: GameSetup): GameSessionState => {
+  const streak = setup.initialStreak || 0;
+  const difficultyLevel = initialDifficultyLevel(streak);
+  return {
+    setup,
+    phase: 'playing',
+    items: arrangeFrom(setup.items, 0, setup, difficultyLevel),
+    difficultyLevel,
+    currentIndex: 0,
+    shownIndex: -1,
+    timeLeftMs: setup.duration * 1000,
+    score: 0,
+    streak,
+    earnedBonus: !!setup.forceBonusRound || isBonusRoundEarned(setup.scoring, streak),
+    answers: [],
+    bonus: null,
+    events: [{ type: 'game_started', at: setup.startedAt, itemIds: setup.items.map(item => item.id), duration: setup.duration, seed: setup.seed, adaptive: !!setup.difficulties }],
+  };
+};
+
+const withEvents = (state: GameSessionState, ...events: GameEvent[]): GameSessionState =>
+  ({ ...state, events: [...state.events, ...events] });
+
+const endGame = (state: GameSessionState, at: number): GameSessionState =>
+  withEvents({ ...state, phase: 'ended' }, { type: 'game_ended', at, score: state.score });
+
+// Out of time or out of items: on to the bonus round if it was earned
+const finishRegularRound = (state: GameSessionState, at: number): GameSessionState => {
+  const pair = state.setup.bonusPair;
+  if (!state.earnedBonus || !pair || pair.length < 2) return endGame(state, at);
+
+  return withEvents(
+    { ...state, phase: 'bonus', bonus: { items: pair, timeLeftMs: BONUS_ROUND_MS, result: null, pickedId: null } },
+    { type: 'bonus_started', at, itemIds: pair.map(item => item.id) }
+  );
+};
+
+export const gameReducer = (state: GameSessionState, action: GameAction): GameSessionState => {
+  const { setup } = state;
+
+  switch (action.type) {
+    case 'ITEM_SHOWN': {
+      if (state.phase !== 'playing' || state.shownIndex === state.currentIndex) return state;
+      const item = state.items[state.currentIndex];
+      return withEvents(
+        { ...state, shownIndex: state.currentIndex },
+        { type: 'item_shown', at: action.at, index: state.currentIndex, itemId: item.id }
+      );
+    }
+
+    case 'TICK': {
+      if (state.phase === 'bonus') {
+        const bonus = state.bonus;
+        if (!bonus || bonus.result) return state;
+        const timeLeftMs = Math.max(0, bonus.timeLeftMs - action.elapsedMs);
+        if (timeLeftMs > 0) return { ...state, bonus: { ...bonus, timeLeftMs } };
+        return withEvents(
+          { ...state, bonus: { ...bonus, timeLeftMs, result: 'fail' } },
+          { type: 'bonus_finished', at: action.at, result: 'fail' }
+        );
+      }
+      // The clock keeps running while the answer feedback is up
+      if (state.phase !== 'playing' && state.phase !== 'feedback') return state;
+      const timeLeftMs = Math.max(0, state.timeLeftMs - action.elapsedMs);
+      if (timeLeftMs > 0) return { ...state, timeLeftMs };
+      return finishRegularRound(withEvents({ ...state, timeLeftMs }, { type: 'time_up', at: action.at }), action.at);
+    }
+
+    case 'ANSWER': {
+      if (state.phase !== 'playing') return state;
+      const item = state.items[state.currentIndex];
+      const isCorrect = action.guessedReal === item.isReal;
+      const result = scoreAnswer(setup.scoring, { isCorrect, streak: state.streak, timeTaken: action.timeTaken, duration: setup.duration });
+
+      const answer: UserAnswer = {
+        itemId: item.id,
+        guessedReal: action.guessedReal,
+        isCorrect,
+        timeTaken: action.timeTaken,
+        pointsEarned: result.total,
+        points: result.points,
+        stallTime: action.stallTime,
+      };
+      const events: GameEvent[] = [];
+      // Answered before the media finished loading (or at all): it was still
+      // shown, or the stats would miss exactly the slow and broken items
+      if (state.shownIndex !== state.currentIndex) {
+        events.push({ type: 'item_shown', at: action.at, index: state.currentIndex, itemId: item.id });
+      }
+      events.push({ type: 'answered', at: action.at, index: state.currentIndex, answer });
+      if (result.streak !== state.streak) {
+        events.push({ type: 'streak_changed', at: action.at, from: state.streak, to: result.streak });
+      }
+      const earnedBonus = state.earnedBonus || isBonusRoundEarned(setup.scoring, result.streak);
+      if (earnedBonus && !state.earnedBonus) events.push({ type: 'bonus_earned', at: action.at });
+
+      return withEvents({
+        ...state,
+        phase: 'feedback',
+        shownIndex: state.currentIndex,
+        score: state.score + result.total,
+        streak: result.streak,
+        difficultyLevel: nextDifficultyLevel(state.difficultyLevel, result.streak, isCorrect),
+        earnedBonus,
+        answers: [...state.answers, answer],
+      }, ...events);
+    }
+
+    case 'NEXT': {
+      if (state.phase !== 'feedback') return state;
+      if (state.currentIndex >= state.items.length - 1) return finishRegularRound(state, action.at);
+      const currentIndex = state.currentIndex + 1;
+      return { ...state, phase: 'playing', currentIndex, items: arrangeFrom(state.items, currentIndex, setup, state.difficultyLevel) };
+    }
+
+    case 'BONUS_ANSWER': {
+      const bonus = state.bonus;
+      const picked = bonus?.items.find(item => item.id === action.itemId);
+      if (state.phase !== 'bonus' || !bonus || bonus.result || !picked) return state;
+
+      // The player is picking the fake, so a correct pick is the AI item
+      const isCorrect = !picked.isReal;
+      const answer: UserAnswer = {
+        itemId: picked.id,
+        guessedReal: false,
+        isCorrect,
+        timeTaken: action.timeTaken,
+        pointsEarned: scoreBonusAnswer(setup.scoring, isCorrect),
+      };
+      const result = isCorrect ? 'success' : 'fail';
+      return withEvents({
+        ...state,
+        score: state.score + answer.pointsEarned,
+        answers: [...state.answers, answer],
+        bonus: { ...bonus, result, pickedId: picked.id },
+      }, { type: 'bonus_finished', at: action.at, result, answer });
+    }
+
+    case 'FINISH': {
+      if (state.phase === 'ended') return state;
+      return endGame(state, action.at);
+    }
+  }
+};
+
+// Rebuild a session from its setup and the actions dispatched during it
+export const replayGame = (setup: GameSetup, actions: GameAction[]): GameSessionState =>
+  actions.reduce(gameReducer, createGameState(setup));
@@ -0,0 +1,98 @@
+// ==========================================
+// PERCEPTUAL IMAGE HASH
+// ==========================================
+// dHash: shrink the image to 9x8 greyscale and record, for every pixel, whether
+// it is brighter than its right-hand neighbour. Resizing, recompression and
+// small colour shifts barely change the result, so copies of the same picture
+// end up a few bits apart while unrelated images differ in about half of them.
+// ==========================================
+
+import { MediaItem } from '../types';
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Max differing bits (out of 64) for two images to count as near-duplicates
+export const NEAR_DUPLICATE_THRESHOLD = 10;
+
+const loadImage = (source: Blob | string): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof source !== 'string') return createImageBitmap(source);
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    // Remote built-in media would otherwise taint the canvas
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image ${source}`));
+    img.src = source;
+  });
+};
+
+// 64-bit dHash as 16 hex characters
+export const computeDHash = async (source: Blob | string): Promise<string> => {
+  const image = await loadImage(source);
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.drawImage(image, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  if ('close' in image) image.close();
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  const luminance = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hash = '';
+  let nibble = 0;
+  let bits = 0;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      nibble = (nibble << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+      if (++bits === 4) {
+        hash += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hash;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+// Groups of two or more items whose hashes are within `threshold` bits of each
+// other. Grouping is transitive, so A~B and B~C puts all three together.
+export const groupNearDuplicates = (items: MediaItem[], threshold = NEAR_DUPLICATE_THRESHOLD): MediaItem[][] => {
+  const hashed = items.filter(item => item.perceptualHash);
+  const parent = hashed.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (hammingDistance(hashed[i].perceptualHash!, hashed[j].perceptualHash!) <= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, MediaItem[]>();
+  hashed.forEach((item, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), item]);
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
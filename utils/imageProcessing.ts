@@ -0,0 +1,148 @@
+// ==========================================
+// IMAGE RESIZING & RECOMPRESSION
+// ==========================================
+// Uploaded photos are downsized and re-encoded before they are stored, and the
+// storage tools can do the same to items already in the database. The work runs
+// in imageWorker.ts on an OffscreenCanvas where the browser supports it, and on
+// a regular canvas on the main thread otherwise.
+// Videos, GIFs (which may be animated) and SVGs are never touched.
+// ==========================================
+
+export type ImageOutputFormat = 'image/webp' | 'image/jpeg';
+
+export interface ImageProcessingSettings {
+  enabled: boolean;
+  maxDimension: number;       // Longest side in pixels, larger images are scaled down
+  quality: number;            // 0-1, passed to the encoder
+  format: ImageOutputFormat;  // Falls back to JPEG where WebP can't be encoded
+}
+
+export const IMAGE_SETTINGS_KEY = 'imageProcessing';
+
+export const DEFAULT_IMAGE_SETTINGS: ImageProcessingSettings = {
+  enabled: true,
+  maxDimension: 2048,
+  quality: 0.85,
+  format: 'image/webp',
+};
+
+const PROCESSABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/bmp'];
+
+export interface EncodedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+export interface ProcessedImage extends Partial<EncodedImage> {
+  blob: Blob;             // What should be stored: the re-encoded image, or the original
+  originalSize: number;
+  changed: boolean;       // False if the original was kept
+}
+
+// Messages exchanged with imageWorker.ts
+export interface ImageJob {
+  id: number;
+  blob: Blob;
+  settings: ImageProcessingSettings;
+}
+
+export interface ImageJobResult {
+  id: number;
+  image?: EncodedImage;
+  error?: string;
+}
+
+const encodeCanvas = (canvas: OffscreenCanvas | HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+  'convertToBlob' in canvas
+    ? canvas.convertToBlob({ type, quality })
+    : new Promise(resolve => canvas.toBlob(resolve, type, quality));
+
+// Shared by the worker and the main-thread fallback
+export const resizeAndEncode = async (blob: Blob, settings: ImageProcessingSettings): Promise<EncodedImage> => {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, settings.maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  const original = { originalWidth: bitmap.width, originalHeight: bitmap.height };
+  bitmap.close();
+
+  // Browsers that can't encode the requested type silently hand back a PNG
+  let encoded = await encodeCanvas(canvas, settings.format, settings.quality);
+  if (!encoded || encoded.type !== settings.format) {
+    encoded = await encodeCanvas(canvas, 'image/jpeg', settings.quality);
+  }
+  if (!encoded) throw new Error('Image could not be encoded');
+  return { blob: encoded, width, height, ...original };
+};
+
+// One worker is shared by every job and started on first use
+let worker: Worker | null = null;
+let nextJobId = 0;
+const pendingJobs = new Map<number, { resolve: (image: EncodedImage) => void; reject: (err: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+  if (worker) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+
+  worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<ImageJobResult>) => {
+    const job = pendingJobs.get(e.data.id);
+    if (!job) return;
+    pendingJobs.delete(e.data.id);
+    if (e.data.image) job.resolve(e.data.image);
+    else job.reject(new Error(e.data.error || 'Image processing failed'));
+  };
+  // A worker that fails to load takes every queued job with it, later jobs start a new one
+  worker.onerror = (e) => {
+    pendingJobs.forEach(job => job.reject(new Error(e.message || 'Image worker failed')));
+    pendingJobs.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const runJob = (blob: Blob, settings: ImageProcessingSettings): Promise<EncodedImage> => {
+  const imageWorker = getWorker();
+  if (!imageWorker) return resizeAndEncode(blob, settings);
+
+  return new Promise((resolve, reject) => {
+    const id = nextJobId++;
+    pendingJobs.set(id, { resolve, reject });
+    imageWorker.postMessage({ id, blob, settings } as ImageJob);
+  });
+};
+
+// Scale and re-encode unconditionally, e.g. for thumbnails
+export const encodeImage = (blob: Blob, settings: ImageProcessingSettings): Promise<EncodedImage> => runJob(blob, settings);
+
+export const canProcessImage = (blob: Blob) => PROCESSABLE_TYPES.includes(blob.type);
+
+// The re-encoded image is only used if it was scaled down or came out smaller
+export const processImage = async (blob: Blob, settings: ImageProcessingSettings = DEFAULT_IMAGE_SETTINGS): Promise<ProcessedImage> => {
+  const unchanged: ProcessedImage = { blob, originalSize: blob.size, changed: false };
+  if (!settings.enabled || !canProcessImage(blob)) return unchanged;
+
+  const image = await runJob(blob, settings);
+  const resized = image.width < image.originalWidth;
+  if (!resized && image.blob.size >= blob.size) {
+    return { ...image, ...unchanged };
+  }
+  return { ...image, originalSize: blob.size, changed: true };
+};
+
+// For the storage tools: the smaller version of an already stored image, or null
+export const recompressImage = async (blob: Blob, settings: ImageProcessingSettings = DEFAULT_IMAGE_SETTINGS): Promise<Blob | null> => {
+  const result = await processImage(blob, { ...settings, enabled: true });
+  return result.changed && result.blob.size < blob.size ? result.blob : null;
+};
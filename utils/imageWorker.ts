@@ -0,0 +1,14 @@
+// Web Worker entry for utils/imageProcessing.ts, keeps large decodes and
+// encodes off the main thread so the editor stays responsive.
+import { resizeAndEncode, ImageJob, ImageJobResult } from './imageProcessing';
+
+self.onmessage = async (e: MessageEvent<ImageJob>) => {
+  const { id, blob, settings } = e.data;
+  let result: ImageJobResult;
+  try {
+    result = { id, image: await resizeAndEncode(blob, settings) };
+  } catch (err) {
+    result = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(result);
+};
@@ -0,0 +1,101 @@
+import { MediaItem, ItemStats } from '../types';
+import { GameEvent } from './gameMachine';
+
+// ==========================================
+// PER-ITEM PLAY STATISTICS
+// ==========================================
+// Tallies game events into per-item totals (ItemStatsManager keeps a running
+// copy for all games), and turns those into the rates shown on the Admin
+// Manage cards and Analytics tab, and the orders they sort in. A very high
+// or very low share of correct answers points at items that are too easy or
+// too hard, and a guessed-real rate far from the item's label often means the
+// label itself is wrong.
+// ==========================================
+
+const emptyItemStats = (itemId: string): ItemStats =>
+  ({ itemId, shown: 0, answered: 0, correct: 0, guessedReal: 0, totalTimeMs: 0, timedAnswers: 0 });
+
+export const mergeItemStats = (a: ItemStats, b: ItemStats): ItemStats => ({
+  itemId: a.itemId,
+  shown: a.shown + b.shown,
+  answered: a.answered + b.answered,
+  correct: a.correct + b.correct,
+  guessedReal: a.guessedReal + b.guessedReal,
+  totalTimeMs: a.totalTimeMs + b.totalTimeMs,
+  timedAnswers: a.timedAnswers + b.timedAnswers,
+});
+
+// Totals by item id over the events of one or more games. Only regular rounds
+// count, the bonus round is a different question.
+export const collectItemStats = (events: GameEvent[]): Map<string, ItemStats> => {
+  const totals = new Map<string, ItemStats>();
+  const statsFor = (itemId: string) => {
+    if (!totals.has(itemId)) totals.set(itemId, emptyItemStats(itemId));
+    return totals.get(itemId)!;
+  };
+  events.forEach(event => {
+    if (event.type === 'item_shown') statsFor(event.itemId).shown++;
+    if (event.type === 'answered') {
+      const stats = statsFor(event.answer.itemId);
+      stats.answered++;
+      if (event.answer.isCorrect) stats.correct++;
+      if (event.answer.guessedReal) stats.guessedReal++;
+      if (event.answer.timeTaken > 0) {
+        stats.totalTimeMs += event.answer.timeTaken;
+        stats.timedAnswers++;
+      }
+    }
+  });
+  return totals;
+};
+
+export interface ItemStatsSummary {
+  shown: number;
+  answered: number;
+  accuracy: number | null;         // 0-1, null until answered
+  averageTimeMs: number | null;
+  guessedRealRate: number | null;  // 0-1, null until answered
+}
+
+export const summarizeItemStats = (stats?: ItemStats): ItemStatsSummary => ({
+  shown: stats?.shown || 0,
+  answered: stats?.answered || 0,
+  accuracy: stats && stats.answered > 0 ? stats.correct / stats.answered : null,
+  averageTimeMs: stats && stats.timedAnswers > 0 ? stats.totalTimeMs / stats.timedAnswers : null,
+  guessedRealRate: stats && stats.answered > 0 ? stats.guessedReal / stats.answered : null,
+});
+
+export type ItemSortKey = 'default' | 'shown' | 'accuracy-low' | 'accuracy-high' | 'time' | 'guessed-real';
+
+export const ITEM_SORT_LABELS: Record<ItemSortKey, string> = {
+  'default': 'Library Order',
+  'shown': 'Most Shown',
+  'accuracy-low': 'Hardest First',
+  'accuracy-high': 'Easiest First',
+  'time': 'Slowest Decisions',
+  'guessed-real': 'Most Guessed Real',
+};
+
+// Value to sort on, larger first. Items without the stat go last.
+const sortValue = (key: ItemSortKey, summary: ItemStatsSummary): number | null => {
+  switch (key) {
+    case 'shown': return summary.shown;
+    case 'accuracy-low': return summary.accuracy === null ? null : 1 - summary.accuracy;
+    case 'accuracy-high': return summary.accuracy;
+    case 'time': return summary.averageTimeMs;
+    case 'guessed-real': return summary.guessedRealRate;
+    default: return null;
+  }
+};
+
+export const sortItemsByStats = (items: MediaItem[], stats: Record<string, ItemStats>, key: ItemSortKey): MediaItem[] => {
+  if (key === 'default') return items;
+  const values = new Map(items.map(item => [item.id, sortValue(key, summarizeItemStats(stats[item.id]))]));
+  // Array.prototype.sort is stable, so ties keep the library order
+  return [...items].sort((a, b) => {
+    const valueA = values.get(a.id) ?? null;
+    const valueB = values.get(b.id) ?? null;
+    if (valueA === null || valueB === null) return valueA === null ? (valueB === null ? 0 : 1) : -1;
+    return valueB - valueA;
+  });
+};
@@ -0,0 +1,74 @@
+// ==========================================
+// LOCAL LEADERBOARD
+// ==========================================
+// High scores kept on this kiosk, one board per game duration and period.
+// Daily and weekly boards start over at local midnight and on Monday, from the
+// same stored entries, so nothing has to be reset. Equal scores rank in the
+// order they were set, the first to reach a score keeps the higher place.
+// ==========================================
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all-time';
+
+export interface LeaderboardEntry {
+  id: string;
+  initials: string;      // INITIALS_LENGTH letters
+  score: number;
+  duration: number;      // Seconds, every mode has its own boards
+  achievedAt: number;    // Epoch ms
+}
+
+export interface LeaderboardPlacement {
+  period: LeaderboardPeriod;
+  rank: number;          // 1-based
+}
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'all-time'];
+
+export const LEADERBOARD_PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  'daily': 'Today',
+  'weekly': 'This Week',
+  'all-time': 'All Time',
+};
+
+export const LEADERBOARD_DURATIONS = [30, 60];
+
+export const LEADERBOARD_SIZE = 10;
+
+export const INITIALS_LENGTH = 3;
+export const INITIALS_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// When the period's board started, in local time
+export const periodStart = (period: LeaderboardPeriod, now: number = Date.now()): number => {
+  if (period === 'all-time') return 0;
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  // getDay() counts from Sunday, weeks here start on Monday
+  if (period === 'weekly') date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry) => b.score - a.score || a.achievedAt - b.achievedAt;
+
+// The board as shown, best first
+export const rankEntries = (entries: LeaderboardEntry[], period: LeaderboardPeriod, duration: number, now: number = Date.now()): LeaderboardEntry[] => {
+  const start = periodStart(period, now);
+  return entries
+    .filter(entry => entry.duration === duration && entry.achievedAt >= start && entry.achievedAt <= now)
+    .sort(compareEntries)
+    .slice(0, LEADERBOARD_SIZE);
+};
+
+// The boards a new score would make it onto, and where. Empty when it makes
+// none, a score of 0 never does.
+export const findPlacements = (entries: LeaderboardEntry[], score: number, duration: number, now: number = Date.now()): LeaderboardPlacement[] => {
+  if (score <= 0) return [];
+  return LEADERBOARD_PERIODS.flatMap(period => {
+    // Ties go to the entry that was there first
+    const rank = rankEntries(entries, period, duration, now).filter(entry => entry.score >= score).length + 1;
+    return rank <= LEADERBOARD_SIZE ? [{ period, rank }] : [];
+  });
+};
+
+// Letters only, padded with A so the entry always has INITIALS_LENGTH of them
+export const normalizeInitials = (text: string) =>
+  text.toUpperCase().replace(/[^A-Z]/g, '').slice(0, INITIALS_LENGTH).padEnd(INITIALS_LENGTH, 'A');
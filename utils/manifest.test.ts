@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { MANIFEST_UPGRADES, MANIFEST_VERSION, formatValidationError, upgradeManifest, validateManifest, validateMediaItem } from './manifest';
+
+const v1Item = {
+  id: 'sunset',
+  type: 'image',
+  url: 'media/sunset.jpg',
+  isReal: 'TRUE',
+  title: 'Sunset',
+  tips: 'Look at the horizon, check the reflections, ',
+  isCustom: true,
+};
+
+describe('upgradeManifest', () => {
+  const originalStep = MANIFEST_UPGRADES[1];
+  afterEach(() => {
+    MANIFEST_UPGRADES[1] = originalStep;
+  });
+
+  it('brings a v1 manifest up to the current version', () => {
+    const manifest = upgradeManifest({ version: 1, timestamp: '2024-05-01T10:00:00.000Z', items: [v1Item] });
+    expect(manifest).toEqual({
+      version: MANIFEST_VERSION,
+      exportedAt: '2024-05-01T10:00:00.000Z',
+      items: [{
+        id: 'sunset',
+        type: 'image',
+        url: 'media/sunset.jpg',
+        isReal: true,
+        title: 'Sunset',
+        tips: ['Look at the horizon', 'check the reflections'],
+        explanation: '',
+        category: 'General',
+      }],
+    });
+    expect(validateManifest(manifest)).toEqual([]);
+  });
+
+  it('treats a bare array as the items of a v0 manifest', () => {
+    const manifest = upgradeManifest([v1Item]);
+    expect(manifest.version).toBe(MANIFEST_VERSION);
+    expect(manifest.items).toHaveLength(1);
+  });
+
+  it('treats a manifest without a version as v1', () => {
+    expect(upgradeManifest({ items: [v1Item] }).items).toEqual([expect.objectContaining({ isReal: true, category: 'General' })]);
+  });
+
+  it('leaves a current manifest alone', () => {
+    const manifest = { version: MANIFEST_VERSION, items: [] };
+    expect(upgradeManifest(manifest)).toBe(manifest);
+  });
+
+  it('rejects manifests it cannot read', () => {
+    expect(() => upgradeManifest('items')).toThrow('Manifest must be a JSON object');
+    expect(() => upgradeManifest({ version: MANIFEST_VERSION + 1, items: [] })).toThrow(/newer than this app supports/);
+  });
+
+  it('stops when a step does not move the version forward', () => {
+    MANIFEST_UPGRADES[1] = (manifest) => ({ ...(manifest as object), version: 1 });
+    expect(() => upgradeManifest({ version: 1, items: [] })).toThrow('Manifest upgrade from version 1 did not produce a newer version');
+  });
+});
+
+const validItem = {
+  id: 'sunset',
+  type: 'image',
+  url: 'media/sunset.jpg',
+  isReal: true,
+  title: 'Sunset',
+  explanation: 'A real photo',
+  tips: ['Look at the horizon'],
+  category: 'Landscapes',
+};
+
+describe('validateMediaItem', () => {
+  it('accepts a complete item', () => {
+    expect(validateMediaItem(validItem)).toEqual([]);
+  });
+
+  it('reports each bad field by name', () => {
+    const { isReal, ...withoutIsReal } = validItem;
+    expect(validateMediaItem(withoutIsReal)).toEqual([{ field: 'isReal', message: 'is required' }]);
+    expect(validateMediaItem({ ...validItem, type: 'audio' })).toEqual([{ field: 'type', message: 'must be one of "image", "video"' }]);
+    expect(validateMediaItem({ ...validItem, tips: 'Look at the horizon' })).toEqual([{ field: 'tips', message: 'must be an array' }]);
+    expect(validateMediaItem({ ...validItem, tips: ['Fine', 3] })).toEqual([{ field: 'tips[1]', message: 'must be a string' }]);
+    expect(validateMediaItem({ ...validItem, title: '  ' })).toEqual([{ field: 'title', message: 'must not be empty' }]);
+    expect(validateMediaItem({ ...validItem, difficulty: 6 })).toEqual([{ field: 'difficulty', message: 'must be at most 5' }]);
+  });
+
+  it('reports every problem at once', () => {
+    const errors = validateMediaItem({ ...validItem, isReal: 'yes', type: 'audio', tips: null });
+    expect(errors.map(formatValidationError)).toEqual([
+      'tips is required',
+      'type must be one of "image", "video"',
+      'isReal must be a boolean',
+    ]);
+  });
+
+  it('skips fields the caller has not filled in yet', () => {
+    const { url, ...withoutUrl } = validItem;
+    expect(validateMediaItem(withoutUrl)).toEqual([{ field: 'url', message: 'is required' }]);
+    expect(validateMediaItem(withoutUrl, ['url'])).toEqual([]);
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(validateMediaItem('sunset')).toEqual([{ field: '(root)', message: 'must be an object' }]);
+  });
+});
+
+describe('validateManifest', () => {
+  it('attributes item errors to the item by index and id', () => {
+    const { isReal, ...withoutIsReal } = validItem;
+    const errors = validateManifest({
+      version: MANIFEST_VERSION,
+      items: [validItem, { ...withoutIsReal, id: 'no-label' }, { ...validItem, id: undefined, tips: 'one, two' }],
+    });
+    expect(errors).toEqual([
+      { field: 'isReal', message: 'is required', index: 1, itemId: 'no-label' },
+      { field: 'id', message: 'is required', index: 2, itemId: undefined },
+      { field: 'tips', message: 'must be an array', index: 2, itemId: undefined },
+    ]);
+  });
+
+  it('reports manifest-level errors without an index', () => {
+    expect(validateManifest({ version: MANIFEST_VERSION, items: 'none' })).toEqual([{ field: 'items', message: 'must be an array' }]);
+    expect(validateManifest({ items: [] })).toEqual([{ field: 'version', message: 'is required' }]);
+    expect(validateManifest({ version: MANIFEST_VERSION, items: [], packs: [{ id: 'museum' }] }))
+      .toEqual([{ field: 'packs[0].name', message: 'is required' }]);
+  });
+});
@@ -0,0 +1,245 @@
+// ==========================================
+// GAME PACK MANIFEST SCHEMA
+// ==========================================
+// JSON Schema (draft-07) for game_data.json / data.json. The validator below
+// interprets the subset of keywords used here, so the schema is the single
+// source of truth for what a valid MediaItem looks like.
+// Unknown properties are allowed so newer packs still load in older builds.
+//
+// Packs already out on kiosks are never rewritten. Instead every import runs
+// the manifest through upgradeManifest() first, so validation and the rest of
+// the app only ever see the current shape.
+// ==========================================
+
+export const MANIFEST_VERSION = 2;
+
+interface SchemaNode {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  enum?: readonly unknown[];
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: SchemaNode;
+  required?: readonly string[];
+  properties?: Record<string, SchemaNode>;
+}
+
+export const MEDIA_ITEM_SCHEMA: SchemaNode = {
+  title: 'MediaItem',
+  type: 'object',
+  required: ['id', 'type', 'url', 'isReal', 'title', 'explanation', 'tips', 'category'],
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    type: { type: 'string', enum: ['image', 'video'] },
+    url: { type: 'string', minLength: 1, description: "media/<file> inside the pack, or a data: URL" },
+    isReal: { type: 'boolean' },
+    title: { type: 'string', minLength: 1 },
+    explanation: { type: 'string' },
+    tips: { type: 'array', items: { type: 'string' } },
+    category: { type: 'string', minLength: 1 },
+    shortTip: { type: 'string' },
+    aiModel: { type: 'string' },
+    isCustom: { type: 'boolean' },
+    packId: { type: 'string' },
+    perceptualHash: { type: 'string', description: "64-bit dHash as hex, see utils/imageHash.ts" },
+    preserveOriginal: { type: 'boolean' },
+    thumbnailUrl: { type: 'string', description: "media/thumbs/<file> inside the pack" },
+    difficulty: { type: 'integer', minimum: 1, maximum: 5 },
+  },
+};
+
+export const GAME_PACK_SCHEMA: SchemaNode = {
+  title: 'GamePack',
+  type: 'object',
+  required: ['id', 'name'],
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    version: { type: 'string' },
+    author: { type: 'string' },
+    createdAt: { type: 'string' },
+    enabled: { type: 'boolean' },
+    scoring: { type: 'object', description: "Partial ScoringConfig, see utils/scoring.ts" },
+  },
+};
+
+export const MANIFEST_SCHEMA: SchemaNode = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'real-or-ai/game-pack-manifest',
+  title: 'Real or AI? Game Pack Manifest',
+  type: 'object',
+  required: ['version', 'items'],
+  properties: {
+    version: { type: 'integer', minimum: 1 },
+    exportedAt: { type: 'string' },
+    packs: { type: 'array', items: GAME_PACK_SCHEMA },
+    items: { type: 'array', items: MEDIA_ITEM_SCHEMA },
+  },
+};
+
+export interface ValidationError {
+  field: string;    // Path relative to the item (or manifest), e.g. "tips[2]"
+  message: string;
+  index?: number;   // Position in manifest.items
+  itemId?: string;
+}
+
+const typeMatches = (value: unknown, type: NonNullable<SchemaNode['type']>) => {
+  switch (type) {
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    default: return typeof value === type;
+  }
+};
+
+const joinPath = (path: string, key: string) => path ? `${path}.${key}` : key;
+
+const validateNode = (value: unknown, schema: SchemaNode, path: string, errors: ValidationError[]) => {
+  const field = path || '(root)';
+
+  if (schema.type && !typeMatches(value, schema.type)) {
+    const article = /^[aeiou]/.test(schema.type) ? 'an' : 'a';
+    errors.push({ field, message: `must be ${article} ${schema.type}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ field, message: `must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` });
+  }
+  if (schema.minLength !== undefined && typeof value === 'string' && value.trim().length < schema.minLength) {
+    errors.push({ field, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+  }
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    errors.push({ field, message: `must be at least ${schema.minimum}` });
+  }
+  if (schema.maximum !== undefined && typeof value === 'number' && value > schema.maximum) {
+    errors.push({ field, message: `must be at most ${schema.maximum}` });
+  }
+  if (schema.items && Array.isArray(value)) {
+    value.forEach((entry, i) => validateNode(entry, schema.items!, `${path}[${i}]`, errors));
+  }
+  if (schema.properties && typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    schema.required?.forEach(key => {
+      if (record[key] === undefined || record[key] === null) {
+        errors.push({ field: joinPath(path, key), message: 'is required' });
+      }
+    });
+    Object.entries(schema.properties).forEach(([key, child]) => {
+      if (record[key] !== undefined && record[key] !== null) {
+        validateNode(record[key], child, joinPath(path, key), errors);
+      }
+    });
+  }
+};
+
+// Per-field errors for a single item. `skipFields` lets the editor check an
+// item before its media has been stored (and its url assigned).
+export const validateMediaItem = (item: unknown, skipFields: string[] = []): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  validateNode(item, MEDIA_ITEM_SCHEMA, '', errors);
+  return errors.filter(error => !skipFields.includes(error.field.split(/[.[]/)[0]));
+};
+
+// Manifest-level errors have no index, item errors carry the index and id of the item.
+export const validateManifest = (data: unknown): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  // Items are checked one by one below so their errors can be attributed
+  const shallowSchema: SchemaNode = {
+    ...MANIFEST_SCHEMA,
+    properties: { ...MANIFEST_SCHEMA.properties, items: { type: 'array' } },
+  };
+  validateNode(data, shallowSchema, '', errors);
+
+  const items = (data as { items?: unknown })?.items;
+  if (Array.isArray(items)) {
+    items.forEach((item, index) => {
+      const itemId = typeof (item as { id?: unknown })?.id === 'string' ? (item as { id: string }).id : undefined;
+      validateMediaItem(item).forEach(error => errors.push({ ...error, index, itemId }));
+    });
+  }
+  return errors;
+};
+
+export const formatValidationError = (error: ValidationError) => `${error.field} ${error.message}`;
+
+// ==========================================
+// MANIFEST UPGRADES
+// ==========================================
+// Keyed by the version they upgrade *from*. Each step returns a manifest one
+// version newer; add a step here whenever MANIFEST_VERSION is bumped.
+// Steps should be forgiving and leave anything they don't recognise for the
+// validator to report.
+// ==========================================
+
+// Nothing in a manifest is trusted until validateManifest() has looked at it
+export type RawManifest = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const MANIFEST_UPGRADES: Record<number, (manifest: unknown) => RawManifest> = {
+  // v0: a bare array of items, as in a hand-written manifest
+  0: (items) => ({ version: 1, items }),
+
+  // v1 -> v2: `timestamp` becomes `exportedAt`, loosely typed item fields are
+  // normalised and the internal `isCustom` flag is no longer exported.
+  1: (manifest) => {
+    const { timestamp, ...rest } = isRecord(manifest) ? manifest : {};
+    return {
+      ...rest,
+      version: 2,
+      exportedAt: rest.exportedAt ?? timestamp,
+      items: Array.isArray(rest.items) ? rest.items.map((item: unknown) => {
+        if (!isRecord(item)) return item;
+        const { isCustom, ...fields } = item;
+        return {
+          ...fields,
+          isReal: typeof fields.isReal === 'string' ? fields.isReal.toLowerCase() === 'true' : fields.isReal,
+          tips: typeof fields.tips === 'string'
+            ? fields.tips.split(',').map((tip: string) => tip.trim()).filter((tip: string) => tip.length > 0)
+            : fields.tips ?? [],
+          explanation: fields.explanation ?? '',
+          category: fields.category || 'General',
+        };
+      }) : rest.items,
+    };
+  },
+};
+
+const getManifestVersion = (raw: unknown): number => {
+  if (Array.isArray(raw)) return 0;
+  if (isRecord(raw)) {
+    // Packs exported before the version field was read all said 1 (or nothing)
+    return typeof raw.version === 'number' ? raw.version : 1;
+  }
+  throw new Error('Manifest must be a JSON object');
+};
+
+// Bring a parsed manifest of any known version up to MANIFEST_VERSION
+export const upgradeManifest = (raw: unknown): RawManifest => {
+  let version = getManifestVersion(raw);
+  if (version > MANIFEST_VERSION) {
+    throw new Error(`Manifest version ${version} is newer than this app supports (${MANIFEST_VERSION}). Please update the game.`);
+  }
+
+  let manifest: unknown = raw;
+  while (version < MANIFEST_VERSION) {
+    const upgrade = MANIFEST_UPGRADES[version];
+    if (!upgrade) throw new Error(`No upgrade path from manifest version ${version}`);
+    const upgraded = upgrade(manifest);
+    // A step that doesn't move the version forward would loop forever
+    if (typeof upgraded.version !== 'number' || upgraded.version <= version) {
+      throw new Error(`Manifest upgrade from version ${version} did not produce a newer version`);
+    }
+    manifest = upgraded;
+    version = upgraded.version;
+  }
+  if (!isRecord(manifest)) throw new Error('Manifest must be a JSON object');
+  return manifest;
+};
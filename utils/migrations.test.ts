@@ -0,0 +1,173 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PACK_ID } from '../constants';
+import { DB_VERSION, LEGACY_HASH_PREFIX, MIGRATIONS, STORES, Migration, runMigrations } from './migrations';
+
+// Every test gets its own database so nothing leaks between them
+let dbCount = 0;
+const newDbName = () => `migrations-test-${++dbCount}`;
+
+const openAt = (name: string, version: number, migrations: Migration[] = MIGRATIONS) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      runMigrations(request.result, request.transaction!, event.oldVersion, version, migrations);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Upgrade blocked'));
+  });
+
+const getAll = <T>(db: IDBDatabase, storeName: string) =>
+  new Promise<T[]>((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+
+const indexNames = (db: IDBDatabase, storeName: string) =>
+  Array.from(db.transaction(storeName, 'readonly').objectStore(storeName).indexNames).sort();
+
+// A database as the very first release left it, media inline as data URLs
+const seedV1 = async (name: string, records: object[]) => {
+  const db = await openAt(name, 1);
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORES.items, 'readwrite');
+    records.forEach(record => transaction.objectStore(STORES.items).put(record));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  db.close();
+};
+
+const PNG_DATA_URL = 'data:image/png;base64,aGVsbG8gd29ybGQ=';   // "hello world"
+const TEXT_DATA_URL = 'data:text/plain,plain%20text';
+
+const V1_RECORDS = [
+  { id: 'inline-image', type: 'image', url: PNG_DATA_URL, isReal: true, title: 'Inline image' },
+  { id: 'remote-image', type: 'image', url: 'media/sunset.jpg', isReal: false, title: 'Remote image' },
+  { id: 'inline-packed', type: 'image', url: TEXT_DATA_URL, isReal: false, title: 'Already packed', packId: 'museum' },
+];
+
+describe('runMigrations', () => {
+  it('upgrades a v1 database through every version', async () => {
+    const name = newDbName();
+    await seedV1(name, V1_RECORDS);
+
+    const db = await openAt(name, DB_VERSION);
+    expect(db.version).toBe(DB_VERSION);
+
+    const expectedStores = Object.values(STORES).filter(store => store !== STORES.blobs).sort();
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(expectedStores);
+    expect(indexNames(db, STORES.items)).toEqual(['mediaHash', 'packId', 'thumbnailHash']);
+    expect(indexNames(db, STORES.sessions)).toEqual(['endedAt']);
+    expect(indexNames(db, STORES.leaderboard)).toEqual(['duration']);
+
+    const items = await getAll<Record<string, unknown>>(db, STORES.items);
+    expect(items).toEqual([
+      { ...V1_RECORDS[0], url: '', packId: DEFAULT_PACK_ID, mediaHash: `${LEGACY_HASH_PREFIX}inline-image` },
+      { ...V1_RECORDS[2], url: '', mediaHash: `${LEGACY_HASH_PREFIX}inline-packed` },
+      { ...V1_RECORDS[1], packId: DEFAULT_PACK_ID },
+    ]);
+
+    const files = await getAll<{ hash: string; blob: Blob }>(db, STORES.files);
+    expect(files.map(file => file.hash)).toEqual([`${LEGACY_HASH_PREFIX}inline-image`, `${LEGACY_HASH_PREFIX}inline-packed`]);
+    expect(files[0].blob.type).toBe('image/png');
+    expect(await files[0].blob.text()).toBe('hello world');
+    expect(files[1].blob.type).toBe('text/plain');
+    expect(await files[1].blob.text()).toBe('plain text');
+
+    const packs = await getAll<{ id: string; enabled: boolean }>(db, STORES.packs);
+    expect(packs.map(pack => [pack.id, pack.enabled])).toEqual([[DEFAULT_PACK_ID, true]]);
+
+    db.close();
+  });
+
+  it('gives the same result when upgraded one release at a time', async () => {
+    const name = newDbName();
+    await seedV1(name, V1_RECORDS);
+
+    for (const migration of MIGRATIONS.slice(1)) {
+      (await openAt(name, migration.version)).close();
+    }
+
+    const db = await openAt(name, DB_VERSION);
+    expect(db.objectStoreNames.contains(STORES.blobs)).toBe(false);
+    const items = await getAll<Record<string, unknown>>(db, STORES.items);
+    expect(items.map(item => [item.id, item.url, item.packId, item.mediaHash])).toEqual([
+      ['inline-image', '', DEFAULT_PACK_ID, `${LEGACY_HASH_PREFIX}inline-image`],
+      ['inline-packed', '', 'museum', `${LEGACY_HASH_PREFIX}inline-packed`],
+      ['remote-image', 'media/sunset.jpg', DEFAULT_PACK_ID, undefined],
+    ]);
+    expect((await getAll(db, STORES.files)).length).toBe(2);
+    db.close();
+  });
+
+  it('keeps both the v2 and v3 rewrites of the same record', async () => {
+    const name = newDbName();
+    await seedV1(name, V1_RECORDS);
+
+    const db = await openAt(name, 3);
+    const items = await getAll<Record<string, unknown>>(db, STORES.items);
+    expect(items.map(item => [item.id, item.url, item.packId])).toEqual([
+      ['inline-image', '', DEFAULT_PACK_ID],
+      ['inline-packed', '', 'museum'],
+      ['remote-image', 'media/sunset.jpg', DEFAULT_PACK_ID],
+    ]);
+    const blobs = await getAll<{ id: string }>(db, STORES.blobs);
+    expect(blobs.map(blob => blob.id)).toEqual(['inline-image', 'inline-packed']);
+    db.close();
+  });
+
+  it('creates every store on a fresh install', async () => {
+    const db = await openAt(newDbName(), DB_VERSION);
+    const expectedStores = Object.values(STORES).filter(store => store !== STORES.blobs).sort();
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(expectedStores);
+    expect((await getAll<{ id: string }>(db, STORES.packs)).map(pack => pack.id)).toEqual([DEFAULT_PACK_ID]);
+    db.close();
+  });
+
+  it('waits for a step to finish before starting the next', async () => {
+    const order: string[] = [];
+    const migrations: Migration[] = [
+      {
+        version: 1,
+        description: 'Create and fill a store',
+        stores: [{ name: 'things', create: { keyPath: 'id' } }],
+        transform: (transaction, done) => {
+          transaction.objectStore('things').put({ id: 'a', count: 1 }).onsuccess = () => {
+            order.push('first done');
+            done();
+          };
+        },
+      },
+      {
+        version: 2,
+        description: 'Read what the first step wrote',
+        stores: [{ name: 'things', addIndexes: [{ name: 'count', keyPath: 'count' }] }],
+        transform: (transaction, done) => {
+          order.push('second started');
+          transaction.objectStore('things').get('a').onsuccess = (e) => {
+            const record = (e.target as IDBRequest<{ id: string; count: number }>).result;
+            transaction.objectStore('things').put({ ...record, count: record.count + 1 });
+            done();
+          };
+        },
+      },
+    ];
+
+    const db = await openAt(newDbName(), 2, migrations);
+    expect(order).toEqual(['first done', 'second started']);
+    expect(await getAll(db, 'things')).toEqual([{ id: 'a', count: 2 }]);
+    db.close();
+  });
+
+  it('rejects a registry whose versions do not increase', () => {
+    const migrations: Migration[] = [
+      { version: 2, description: 'Second' },
+      { version: 1, description: 'First' },
+    ];
+    expect(() => runMigrations({} as IDBDatabase, {} as IDBTransaction, 0, 2, migrations))
+      .toThrow('Migration versions must increase: 1 follows 2');
+  });
+});
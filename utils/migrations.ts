@@ -0,0 +1,245 @@
+import { MediaItem, GamePack } from '../types';
+import { DEFAULT_PACK_ID } from '../constants';
+import { dataUrlToBlob } from './blobs';
+
+// ==========================================
+// INDEXEDDB SCHEMA MIGRATIONS
+// ==========================================
+// Every schema change gets a new entry at the end of MIGRATIONS. openDB() opens
+// the database at the latest version, and the browser fires onupgradeneeded with
+// the version the user currently has, so only the missing steps are run - in order,
+// inside the single upgrade transaction. A step starts only once the one before it
+// has called `done`, so two steps never rewrite the same records at the same time.
+//
+// Rules for writing a step:
+// - Never edit a step that has shipped, add a new one instead.
+// - `transform` may only issue IndexedDB requests on the transaction it is given.
+//   Awaiting anything else (fetch, FileReader, crypto) lets the transaction commit early.
+// - `transform` must call `done` exactly once, after its last request has completed.
+// ==========================================
+
+export const STORES = {
+  items: 'custom_media',
+  blobs: 'media_blobs', // v2-v3 only, replaced by files
+  packs: 'packs',
+  files: 'media_files',
+  settings: 'settings',
+  itemStats: 'item_stats',
+  sessions: 'sessions',
+  leaderboard: 'leaderboard',
+} as const;
+
+// Media carried over from the per-item blob store gets a placeholder key until
+// it has been hashed, which can't happen inside an upgrade transaction.
+export const LEGACY_HASH_PREFIX = 'legacy-';
+
+export interface IndexDefinition {
+  name: string;
+  keyPath: string | string[];
+  options?: IDBIndexParameters;
+}
+
+export interface StoreChange {
+  name: string;
+  create?: IDBObjectStoreParameters; // Create the store with these options
+  drop?: boolean;                    // Delete the store (and all its data)
+  addIndexes?: IndexDefinition[];
+  dropIndexes?: string[];
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  stores?: StoreChange[];
+  transform?: (transaction: IDBTransaction, done: () => void) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create the custom media store',
+    stores: [{ name: STORES.items, create: { keyPath: 'id' } }],
+  },
+  {
+    version: 2,
+    description: 'Move media out of item records into a blob store',
+    stores: [{ name: STORES.blobs, create: { keyPath: 'id' } }],
+    transform: (transaction, done) => {
+      // Older records carry their media as a base64 data URL, migrate those in place
+      const itemStore = transaction.objectStore(STORES.items);
+      const blobStore = transaction.objectStore(STORES.blobs);
+
+      itemStore.openCursor().onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) {
+          done();
+          return;
+        }
+
+        const record = cursor.value as MediaItem;
+        if (record.url && record.url.startsWith('data:')) {
+          blobStore.put({ id: record.id, blob: dataUrlToBlob(record.url) });
+          cursor.update({ ...record, url: '' });
+        }
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Group items into Game Packs',
+    stores: [
+      { name: STORES.packs, create: { keyPath: 'id' } },
+      { name: STORES.items, addIndexes: [{ name: 'packId', keyPath: 'packId' }] },
+    ],
+    transform: (transaction, done) => {
+      // Everything imported so far lands in the default library pack
+      const defaultPack: GamePack = {
+        id: DEFAULT_PACK_ID,
+        name: 'Library',
+        description: 'Items added from the Admin editor',
+        version: '1.0',
+        author: '',
+        createdAt: new Date().toISOString(),
+        enabled: true,
+      };
+      transaction.objectStore(STORES.packs).put(defaultPack);
+
+      transaction.objectStore(STORES.items).openCursor().onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) {
+          done();
+          return;
+        }
+
+        const record = cursor.value as MediaItem;
+        if (!record.packId) {
+          cursor.update({ ...record, packId: DEFAULT_PACK_ID });
+        }
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 4,
+    description: 'Store media by content hash so identical files are shared',
+    stores: [
+      { name: STORES.files, create: { keyPath: 'hash' } },
+      { name: STORES.items, addIndexes: [{ name: 'mediaHash', keyPath: 'mediaHash' }] },
+    ],
+    transform: (transaction, done) => {
+      const itemStore = transaction.objectStore(STORES.items);
+      const fileStore = transaction.objectStore(STORES.files);
+
+      transaction.objectStore(STORES.blobs).openCursor().onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) {
+          // Every blob has been copied and every item updated by now, so the old
+          // store can go. A store change would drop it before the cursor ran.
+          transaction.db.deleteObjectStore(STORES.blobs);
+          done();
+          return;
+        }
+
+        const { id, blob } = cursor.value as { id: string; blob: Blob };
+        const hash = `${LEGACY_HASH_PREFIX}${id}`;
+        fileStore.put({ hash, blob });
+        // Move on only once the item has been updated, so nothing is still
+        // pending when the cursor reaches the end
+        itemStore.get(id).onsuccess = (event) => {
+          const record = (event.target as IDBRequest<MediaItem | undefined>).result;
+          if (!record) {
+            cursor.continue();
+            return;
+          }
+          itemStore.put({ ...record, mediaHash: hash }).onsuccess = () => cursor.continue();
+        };
+      };
+    },
+  },
+  {
+    version: 5,
+    description: 'Add a key/value store for admin settings',
+    stores: [{ name: STORES.settings, create: { keyPath: 'key' } }],
+  },
+  {
+    version: 6,
+    description: 'Index thumbnails so their files can be cleaned up',
+    stores: [{ name: STORES.items, addIndexes: [{ name: 'thumbnailHash', keyPath: 'thumbnailHash' }] }],
+  },
+  {
+    version: 7,
+    description: 'Keep per-item play statistics',
+    stores: [{ name: STORES.itemStats, create: { keyPath: 'itemId' } }],
+  },
+  {
+    version: 8,
+    description: 'Keep a record of every finished game',
+    stores: [{ name: STORES.sessions, create: { keyPath: 'id' }, addIndexes: [{ name: 'endedAt', keyPath: 'endedAt' }] }],
+  },
+  {
+    version: 9,
+    description: 'Add the high score leaderboard',
+    stores: [{ name: STORES.leaderboard, create: { keyPath: 'id' }, addIndexes: [{ name: 'duration', keyPath: 'duration' }] }],
+  },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const applyStoreChange = (db: IDBDatabase, transaction: IDBTransaction, change: StoreChange) => {
+  if (change.drop) {
+    if (db.objectStoreNames.contains(change.name)) db.deleteObjectStore(change.name);
+    return;
+  }
+
+  // Databases created before the registry existed may already have the store
+  const store = change.create && !db.objectStoreNames.contains(change.name)
+    ? db.createObjectStore(change.name, change.create)
+    : transaction.objectStore(change.name);
+
+  change.dropIndexes?.forEach(name => {
+    if (store.indexNames.contains(name)) store.deleteIndex(name);
+  });
+  change.addIndexes?.forEach(index => {
+    if (!store.indexNames.contains(index.name)) store.createIndex(index.name, index.keyPath, index.options);
+  });
+};
+
+// Apply every step newer than oldVersion, up to and including newVersion
+export const runMigrations = (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number = DB_VERSION,
+  migrations: Migration[] = MIGRATIONS
+) => {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(`Migration versions must increase: ${migration.version} follows ${migrations[index - 1].version}`);
+    }
+  });
+
+  const pending = migrations.filter(migration => migration.version > oldVersion && migration.version <= newVersion);
+
+  // Each step runs from the previous one's `done`, which is called from a request
+  // callback while the upgrade transaction is still active
+  const runStep = (index: number) => {
+    const migration = pending[index];
+    if (!migration) return;
+
+    migration.stores?.forEach(change => applyStoreChange(db, transaction, change));
+    if (!migration.transform) {
+      runStep(index + 1);
+      return;
+    }
+
+    let finished = false;
+    migration.transform(transaction, () => {
+      if (finished) throw new Error(`Migration to v${migration.version} called done more than once`);
+      finished = true;
+      runStep(index + 1);
+    });
+  };
+
+  runStep(0);
+};
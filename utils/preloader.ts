@@ -0,0 +1,82 @@
+import { MediaItem } from '../types';
+
+// ==========================================
+// MEDIA PRELOADER
+// ==========================================
+// Fetches and decodes upcoming rounds while the player is still answering the
+// current one, so MediaDisplay finds them in the browser cache. Images are fully
+// decoded; videos are buffered until the browser expects to play them through.
+// The elements are kept referenced until release(), otherwise the browser is
+// free to drop what it loaded.
+// ==========================================
+
+// Upcoming items to keep loaded, not counting the current one
+export const PRELOAD_AHEAD = 3;
+
+type PreloadState = 'loading' | 'ready' | 'error';
+
+interface PreloadEntry {
+  state: PreloadState;
+  element: HTMLImageElement | HTMLVideoElement;
+}
+
+export class MediaPreloader {
+  private entries = new Map<string, PreloadEntry>();
+
+  // Start loading every item not already queued
+  public preload(items: MediaItem[]) {
+    items.forEach(item => {
+      if (!item.url || this.entries.has(item.url)) return;
+      this.entries.set(item.url, item.type === 'video' ? this.loadVideo(item.url) : this.loadImage(item.url));
+    });
+  }
+
+  public isReady(url: string) {
+    return this.entries.get(url)?.state === 'ready';
+  }
+
+  // Drop everything except the given items
+  public retainOnly(items: MediaItem[]) {
+    const keep = new Set(items.map(item => item.url));
+    Array.from(this.entries.keys()).forEach(url => {
+      if (!keep.has(url)) this.release(url);
+    });
+  }
+
+  public dispose() {
+    Array.from(this.entries.keys()).forEach(url => this.release(url));
+  }
+
+  private release(url: string) {
+    const entry = this.entries.get(url);
+    if (!entry) return;
+    if (entry.element instanceof HTMLVideoElement) {
+      // Stops any download still in flight
+      entry.element.removeAttribute('src');
+      entry.element.load();
+    }
+    this.entries.delete(url);
+  }
+
+  private loadImage(url: string): PreloadEntry {
+    const img = new Image();
+    img.src = url;
+    const entry: PreloadEntry = { state: 'loading', element: img };
+    img.decode()
+      .then(() => { entry.state = 'ready'; })
+      .catch(() => { entry.state = 'error'; });
+    return entry;
+  }
+
+  private loadVideo(url: string): PreloadEntry {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    const entry: PreloadEntry = { state: 'loading', element: video };
+    video.oncanplaythrough = () => { entry.state = 'ready'; };
+    video.onerror = () => { entry.state = 'error'; };
+    video.src = url;
+    return entry;
+  }
+}
@@ -0,0 +1,39 @@
+// ==========================================
+// SEEDED RANDOMNESS
+// ==========================================
+// Everything that decides what a player is shown (item order, the bonus pair)
+// draws from one of these generators, so a game can be replayed from its seed.
+// Math.random() is fine for visual effects, not for anything that has to match
+// on another kiosk.
+// ==========================================
+
+export type RandomSource = () => number;
+
+// mulberry32: tiny, fast and well distributed enough for shuffling a few
+// hundred items. Returns floats in [0, 1) like Math.random().
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A fresh unsigned 32-bit seed
+export const randomSeed = (): number => crypto.getRandomValues(new Uint32Array(1))[0];
+
+// Fisher–Yates, every order is equally likely. Returns a new array.
+export const shuffle = <T>(items: readonly T[], random: RandomSource): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const pickRandom = <T>(items: readonly T[], random: RandomSource): T | undefined =>
+  items.length > 0 ? items[Math.floor(random() * items.length)] : undefined;
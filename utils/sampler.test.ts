@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { MediaItem } from '../types';
+import { createRandom } from './random';
+import { buildRound, sampleBonusPair } from './sampler';
+
+const item = (id: string, isReal: boolean, category = 'General'): MediaItem => ({
+  id,
+  type: 'image',
+  url: `media/${id}.jpg`,
+  isReal,
+  title: id,
+  explanation: '',
+  tips: [],
+  category,
+});
+
+const ids = (items: MediaItem[] | undefined) => items?.map(entry => entry.id).sort();
+
+describe('sampleBonusPair', () => {
+  it('pairs the last real and AI items in the round, from different categories where possible', () => {
+    const round = [
+      item('real-early', true, 'Portraits'),
+      item('ai-early', false, 'Portraits'),
+      item('real-late', true, 'Landscapes'),
+      item('real-same', true, 'Animals'),
+      item('ai-late', false, 'Animals'),
+    ];
+    expect(ids(sampleBonusPair(round, createRandom(1)))).toEqual(['ai-late', 'real-late']);
+  });
+
+  it('falls back to the same category when no other is left', () => {
+    const round = [item('real', true, 'Animals'), item('ai', false, 'Animals')];
+    expect(ids(sampleBonusPair(round, createRandom(1)))).toEqual(['ai', 'real']);
+  });
+
+  it('has no pair when the round only holds one kind', () => {
+    expect(sampleBonusPair([item('ai-1', false), item('ai-2', false)], createRandom(1))).toBeUndefined();
+    expect(sampleBonusPair([item('real-1', true), item('real-2', true)], createRandom(1))).toBeUndefined();
+    expect(sampleBonusPair([item('real', true)], createRandom(1))).toBeUndefined();
+    expect(sampleBonusPair([], createRandom(1))).toBeUndefined();
+  });
+
+  it('gives the same order for the same seed', () => {
+    const round = [item('real', true), item('ai', false)];
+    expect(sampleBonusPair(round, createRandom(7))).toEqual(sampleBonusPair(round, createRandom(7)));
+  });
+});
+
+describe('buildRound', () => {
+  it('uses every item once and is the same for the same seed', () => {
+    const pool = [
+      ...Array.from({ length: 6 }, (_, i) => item(`real-${i}`, true, `Category ${i % 3}`)),
+      ...Array.from({ length: 6 }, (_, i) => item(`ai-${i}`, false, `Category ${i % 3}`)),
+    ];
+    const round = buildRound(pool, createRandom(3));
+    expect(ids(round)).toEqual(ids(pool));
+    expect(buildRound(pool, createRandom(3))).toEqual(round);
+    // Blocks of six keep each half of an even pool balanced
+    expect(round.slice(0, 6).filter(entry => entry.isReal)).toHaveLength(3);
+  });
+});
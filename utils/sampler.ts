@@ -0,0 +1,91 @@
+import { MediaItem } from '../types';
+import { RandomSource, shuffle } from './random';
+
+// ==========================================
+// ROUND SAMPLING
+// ==========================================
+// Orders the pool for a game so it can't be beaten by always guessing one
+// side. Items are dealt in small blocks that each hold the configured share of
+// real items, in random order within the block, so the mix stays close to the
+// target at any point in the game without becoming a predictable pattern.
+// Within each side the least used category goes next, and the same category
+// never comes up twice in a row unless nothing else is left.
+// Once one side runs out the rest of the other follows, so small or lopsided
+// pools still fill the timer.
+// ==========================================
+
+export interface SamplingConfig {
+  realRatio: number;          // Share of real items, 0-1
+  spreadCategories: boolean;  // Least used category first, no back-to-back repeats
+}
+
+export const SAMPLING_SETTINGS_KEY = 'sampling';
+
+export const DEFAULT_SAMPLING_CONFIG: SamplingConfig = {
+  realRatio: 0.5,
+  spreadCategories: true,
+};
+
+const BLOCK_SIZE = 6;
+
+// Next item from `candidates`, honouring the category rules
+const takeNext = (
+  candidates: MediaItem[],
+  usage: Map<string, number>,
+  lastCategory: string | undefined,
+  config: SamplingConfig
+): MediaItem => {
+  if (!config.spreadCategories) return candidates[0];
+
+  const fresh = candidates.filter(item => item.category !== lastCategory);
+  const pool = fresh.length > 0 ? fresh : candidates;
+  // Candidates are already shuffled, so ties go to whichever comes first
+  return pool.reduce((best, item) =>
+    (usage.get(item.category) || 0) < (usage.get(best.category) || 0) ? item : best
+  );
+};
+
+export const buildRound = (items: MediaItem[], random: RandomSource, config: SamplingConfig = DEFAULT_SAMPLING_CONFIG): MediaItem[] => {
+  const ratio = Math.min(1, Math.max(0, config.realRatio));
+  const remaining = {
+    real: shuffle(items.filter(item => item.isReal), random),
+    ai: shuffle(items.filter(item => !item.isReal), random),
+  };
+  const usage = new Map<string, number>();
+  const round: MediaItem[] = [];
+  let realPlaced = 0;
+
+  while (remaining.real.length > 0 || remaining.ai.length > 0) {
+    // Enough real items to bring the running total back to the ratio by the end of the block
+    const blockSize = Math.min(BLOCK_SIZE, remaining.real.length + remaining.ai.length);
+    const realInBlock = Math.round(ratio * (round.length + blockSize)) - realPlaced;
+    const sides = shuffle(
+      Array.from({ length: blockSize }, (_, i) => (i < realInBlock ? 'real' : 'ai') as 'real' | 'ai'),
+      random
+    );
+
+    for (const preferred of sides) {
+      const side = remaining[preferred].length > 0 ? preferred : preferred === 'real' ? 'ai' : 'real';
+      const item = takeNext(remaining[side], usage, round[round.length - 1]?.category, config);
+      remaining[side] = remaining[side].filter(candidate => candidate !== item);
+      usage.set(item.category, (usage.get(item.category) || 0) + 1);
+      if (item.isReal) realPlaced++;
+      round.push(item);
+    }
+  }
+  return round;
+};
+
+// One real and one AI item for the bonus round, in display order. Taken from
+// the far end of the round, where the player is least likely to have got to,
+// and from two different categories where possible. Undefined when the round
+// only has one kind, there would be no right answer, so there's no bonus round.
+export const sampleBonusPair = (round: MediaItem[], random: RandomSource): MediaItem[] | undefined => {
+  const fromEnd = [...round].reverse();
+  const ai = fromEnd.find(item => !item.isReal);
+  if (!ai) return undefined;
+  const real = fromEnd.find(item => item.isReal && item.category !== ai.category)
+    ?? fromEnd.find(item => item.isReal);
+  if (!real) return undefined;
+  return shuffle([real, ai], random);
+};
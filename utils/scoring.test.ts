@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { GamePack } from '../types';
+import {
+  DEFAULT_SCORING_CONFIG,
+  applyScoringOverrides,
+  getSpeedBonus,
+  getStreakMultiplier,
+  isBonusRoundEarned,
+  resolveScoringConfig,
+  scoreAnswer,
+  scoreBonusAnswer,
+} from './scoring';
+
+const config = DEFAULT_SCORING_CONFIG;
+const curve30 = config.speedBonus[30];
+
+const pack = (id: string, scoring?: GamePack['scoring']): GamePack => ({
+  id,
+  name: id,
+  description: '',
+  version: '1.0',
+  author: '',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  enabled: true,
+  scoring,
+});
+
+describe('getStreakMultiplier', () => {
+  it('steps up at the streak and mega streak thresholds', () => {
+    expect([0, 1, 2, 3, 6, 7, 20].map(streak => getStreakMultiplier(config, streak))).toEqual([1, 1, 1, 2, 2, 4, 4]);
+  });
+});
+
+describe('getSpeedBonus', () => {
+  it('pays the full bonus up to fullBonusMs and nothing from noBonusMs', () => {
+    expect(getSpeedBonus(curve30, 1)).toBe(100);
+    expect(getSpeedBonus(curve30, curve30.fullBonusMs)).toBe(100);
+    expect(getSpeedBonus(curve30, curve30.noBonusMs)).toBe(0);
+    expect(getSpeedBonus(curve30, 60000)).toBe(0);
+  });
+
+  it('falls off linearly in between, rounded to tens', () => {
+    expect(getSpeedBonus(curve30, 3250)).toBe(50);
+    expect(getSpeedBonus(curve30, 2000)).toBe(90);
+  });
+
+  it('pays nothing without a curve or a measured time', () => {
+    expect(getSpeedBonus(undefined, 1000)).toBe(0);
+    expect(getSpeedBonus(curve30, 0)).toBe(0);
+    expect(getSpeedBonus({ ...curve30, maxPoints: 0 }, 1000)).toBe(0);
+  });
+});
+
+describe('scoreAnswer', () => {
+  it('scores a wrong answer as nothing and resets the streak', () => {
+    expect(scoreAnswer(config, { isCorrect: false, streak: 6, timeTaken: 1000, duration: 30 }))
+      .toEqual({ points: { base: 0, streak: 0, speed: 0 }, total: 0, streak: 0 });
+  });
+
+  it('adds base, streak and speed points', () => {
+    expect(scoreAnswer(config, { isCorrect: true, streak: 0, timeTaken: 1000, duration: 30 }))
+      .toEqual({ points: { base: 100, streak: 0, speed: 100 }, total: 200, streak: 1 });
+    // The answer that reaches the threshold already counts double
+    expect(scoreAnswer(config, { isCorrect: true, streak: 2, timeTaken: 9000, duration: 30 }))
+      .toEqual({ points: { base: 100, streak: 100, speed: 0 }, total: 200, streak: 3 });
+    expect(scoreAnswer(config, { isCorrect: true, streak: 6, timeTaken: 2000, duration: 60 }))
+      .toEqual({ points: { base: 100, streak: 300, speed: 50 }, total: 450, streak: 7 });
+  });
+
+  it('gives no speed bonus in modes without a curve', () => {
+    expect(scoreAnswer(config, { isCorrect: true, streak: 0, timeTaken: 500, duration: 45 }).points.speed).toBe(0);
+  });
+});
+
+describe('bonus round', () => {
+  it('is earned from bonusRoundQualifier correct answers in a row', () => {
+    expect(isBonusRoundEarned(config, 4)).toBe(false);
+    expect(isBonusRoundEarned(config, 5)).toBe(true);
+    expect(isBonusRoundEarned(config, 12)).toBe(true);
+  });
+
+  it('pays bonusPoints only for the right pick', () => {
+    expect(scoreBonusAnswer(config, true)).toBe(1000);
+    expect(scoreBonusAnswer(config, false)).toBe(0);
+  });
+});
+
+describe('applyScoringOverrides', () => {
+  it('keeps the base config for anything not overridden', () => {
+    expect(applyScoringOverrides(config, undefined)).toBe(config);
+    expect(applyScoringOverrides(config, {})).toEqual(config);
+  });
+
+  it('applies a partial config and the rules follow it', () => {
+    const custom = applyScoringOverrides(config, { streakThreshold: 2, streakMultiplier: 3, bonusRoundQualifier: 3, bonusPoints: 500 });
+    expect(custom).toEqual({ ...config, streakThreshold: 2, streakMultiplier: 3, bonusRoundQualifier: 3, bonusPoints: 500 });
+
+    expect(getStreakMultiplier(custom, 2)).toBe(3);
+    expect(scoreAnswer(custom, { isCorrect: true, streak: 1, timeTaken: 9000, duration: 30 }).total).toBe(300);
+    expect(isBonusRoundEarned(custom, 3)).toBe(true);
+    expect(scoreBonusAnswer(custom, true)).toBe(500);
+  });
+
+  it('ignores values of the wrong type and clamps the rest', () => {
+    const custom = applyScoringOverrides(config, { basePoints: '500', streakThreshold: 0, megaStreakThreshold: 2, streakMultiplier: 2.6, bonusPoints: -10 });
+    expect(custom.basePoints).toBe(100);
+    expect(custom.streakThreshold).toBe(1);
+    expect(custom.megaStreakThreshold).toBe(2);
+    expect(custom.streakMultiplier).toBe(3);
+    expect(custom.bonusPoints).toBe(0);
+  });
+
+  it('never puts the mega streak below the streak threshold', () => {
+    expect(applyScoringOverrides(config, { streakThreshold: 9 }).megaStreakThreshold).toBe(9);
+  });
+
+  it('merges speed bonus curves per mode', () => {
+    const custom = applyScoringOverrides(config, { speedBonus: { 30: { maxPoints: 200, fullBonusMs: 1000, noBonusMs: 500 } } });
+    // noBonusMs is kept past fullBonusMs so the curve still falls off
+    expect(custom.speedBonus[30]).toEqual({ maxPoints: 200, fullBonusMs: 1000, noBonusMs: 1001 });
+    expect(custom.speedBonus[60]).toEqual(config.speedBonus[60]);
+  });
+
+  it('switches the speed bonus off for a mode given null or no points', () => {
+    const custom = applyScoringOverrides(config, { speedBonus: { 30: null, 60: { maxPoints: 0 } } });
+    expect(custom.speedBonus).toEqual({});
+    expect(scoreAnswer(custom, { isCorrect: true, streak: 0, timeTaken: 500, duration: 30 }).points.speed).toBe(0);
+  });
+});
+
+describe('resolveScoringConfig', () => {
+  it('applies pack overrides over the admin config, the last pack winning', () => {
+    const admin = applyScoringOverrides(config, { basePoints: 50 });
+    const resolved = resolveScoringConfig(admin, [
+      pack('a', { bonusPoints: 2000, streakThreshold: 4 }),
+      pack('b'),
+      pack('c', { bonusPoints: 300 }),
+    ]);
+    expect(resolved).toEqual({ ...config, basePoints: 50, bonusPoints: 300, streakThreshold: 4 });
+  });
+
+  it('is the admin config when no pack overrides anything', () => {
+    expect(resolveScoringConfig(config, [pack('a'), pack('b')])).toBe(config);
+  });
+});
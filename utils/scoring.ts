@@ -0,0 +1,120 @@
+import { GamePack, PointsBreakdown, ScoringConfig, SpeedBonusCurve } from '../types';
+
+// ==========================================
+// SCORING RULES
+// ==========================================
+// Everything that decides points, streaks and bonus round eligibility. Kept free
+// of React and storage so the numbers can be reasoned about (and changed) in one
+// place. The defaults below can be overridden from the Admin panel, and a Game
+// Pack can ship its own overrides in its manifest.
+// ==========================================
+
+export const SCORING_SETTINGS_KEY = 'scoring';
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  basePoints: 100,
+  streakThreshold: 3,
+  streakMultiplier: 2,
+  megaStreakThreshold: 7,
+  megaStreakMultiplier: 4,
+  bonusRoundQualifier: 5,
+  bonusPoints: 1000,
+  speedBonus: {
+    30: { maxPoints: 100, fullBonusMs: 1500, noBonusMs: 5000 },
+    60: { maxPoints: 50, fullBonusMs: 2000, noBonusMs: 8000 },
+  },
+};
+
+export interface AnswerScore {
+  points: PointsBreakdown;
+  total: number;
+  streak: number; // Streak after this answer
+}
+
+export const getStreakMultiplier = (config: ScoringConfig, streak: number) => {
+  if (streak >= config.megaStreakThreshold) return config.megaStreakMultiplier;
+  if (streak >= config.streakThreshold) return config.streakMultiplier;
+  return 1;
+};
+
+export const getSpeedBonus = (curve: SpeedBonusCurve | undefined, timeTaken: number) => {
+  if (!curve || curve.maxPoints <= 0 || timeTaken <= 0) return 0;
+  if (timeTaken <= curve.fullBonusMs) return curve.maxPoints;
+  if (timeTaken >= curve.noBonusMs) return 0;
+  const remaining = (curve.noBonusMs - timeTaken) / (curve.noBonusMs - curve.fullBonusMs);
+  // Rounded to tens so the feedback reads cleanly
+  return Math.round((curve.maxPoints * remaining) / 10) * 10;
+};
+
+// `streak` is the streak before this answer
+export const scoreAnswer = (
+  config: ScoringConfig,
+  answer: { isCorrect: boolean; streak: number; timeTaken: number; duration: number }
+): AnswerScore => {
+  if (!answer.isCorrect) {
+    return { points: { base: 0, streak: 0, speed: 0 }, total: 0, streak: 0 };
+  }
+
+  const streak = answer.streak + 1;
+  const points: PointsBreakdown = {
+    base: config.basePoints,
+    streak: config.basePoints * (getStreakMultiplier(config, streak) - 1),
+    speed: getSpeedBonus(config.speedBonus[answer.duration], answer.timeTaken),
+  };
+  return { points, total: points.base + points.streak + points.speed, streak };
+};
+
+export const isBonusRoundEarned = (config: ScoringConfig, streak: number) => streak >= config.bonusRoundQualifier;
+
+export const scoreBonusAnswer = (config: ScoringConfig, isCorrect: boolean) => isCorrect ? config.bonusPoints : 0;
+
+// ==========================================
+// CONFIG OVERRIDES
+// ==========================================
+
+const toCount = (value: unknown, fallback: number, min = 0) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.round(value)) : fallback;
+
+// Merged per mode, so an override for 30s games leaves 60s games alone
+const mergeSpeedBonus = (base: Record<number, SpeedBonusCurve>, value: unknown): Record<number, SpeedBonusCurve> => {
+  if (typeof value !== 'object' || value === null) return base;
+  const curves: Record<number, SpeedBonusCurve> = { ...base };
+  Object.entries(value as Record<string, Partial<SpeedBonusCurve> | null>).forEach(([duration, curve]) => {
+    // null (or a curve worth nothing) switches the speed bonus off for that mode
+    if (!curve || !curve.maxPoints) {
+      delete curves[Number(duration)];
+      return;
+    }
+    const fullBonusMs = toCount(curve.fullBonusMs, 0);
+    curves[Number(duration)] = {
+      maxPoints: toCount(curve.maxPoints, 0),
+      fullBonusMs,
+      noBonusMs: Math.max(fullBonusMs + 1, toCount(curve.noBonusMs, fullBonusMs + 1)),
+    };
+  });
+  return curves;
+};
+
+// Fill in and sanity-check a partial config, anything unusable keeps the base value.
+// Pack manifests are user-supplied, so nothing here trusts the input's types.
+export const applyScoringOverrides = (base: ScoringConfig, overrides: unknown): ScoringConfig => {
+  if (typeof overrides !== 'object' || overrides === null) return base;
+  const o = overrides as Partial<Record<keyof ScoringConfig, unknown>>;
+
+  const streakThreshold = toCount(o.streakThreshold, base.streakThreshold, 1);
+  return {
+    basePoints: toCount(o.basePoints, base.basePoints),
+    streakThreshold,
+    streakMultiplier: toCount(o.streakMultiplier, base.streakMultiplier, 1),
+    megaStreakThreshold: Math.max(streakThreshold, toCount(o.megaStreakThreshold, base.megaStreakThreshold, 1)),
+    megaStreakMultiplier: toCount(o.megaStreakMultiplier, base.megaStreakMultiplier, 1),
+    bonusRoundQualifier: toCount(o.bonusRoundQualifier, base.bonusRoundQualifier, 1),
+    bonusPoints: toCount(o.bonusPoints, base.bonusPoints),
+    speedBonus: mergeSpeedBonus(base.speedBonus, o.speedBonus),
+  };
+};
+
+// The Admin panel's config, then the overrides of every pack the game draws
+// from, in pack order (so with conflicting packs the last one wins)
+export const resolveScoringConfig = (adminConfig: ScoringConfig, packs: GamePack[]): ScoringConfig =>
+  packs.reduce((config, pack) => applyScoringOverrides(config, pack.scoring), adminConfig);
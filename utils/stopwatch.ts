@@ -0,0 +1,58 @@
+import { UserAnswer } from '../types';
+
+// ==========================================
+// STOPWATCH
+// ==========================================
+// Accumulates time across any number of start/stop spans, e.g. while media is
+// on screen but not while it is buffering. Uses performance.now() so system
+// clock changes on the kiosk don't skew the result.
+// ==========================================
+
+export class Stopwatch {
+  private elapsed = 0;
+  private startedAt: number | null = null;
+
+  public start() {
+    if (this.startedAt === null) this.startedAt = performance.now();
+  }
+
+  public stop() {
+    if (this.startedAt === null) return;
+    this.elapsed += performance.now() - this.startedAt;
+    this.startedAt = null;
+  }
+
+  // Total in milliseconds, including the span in progress
+  public read(now = performance.now()) {
+    return this.elapsed + (this.startedAt !== null ? now - this.startedAt : 0);
+  }
+
+  // Total so far, then start counting afresh. Keeps running if it was running.
+  public lap() {
+    const now = performance.now();
+    const total = this.read(now);
+    this.elapsed = 0;
+    if (this.startedAt !== null) this.startedAt = now;
+    return total;
+  }
+
+  public reset() {
+    this.elapsed = 0;
+    this.startedAt = null;
+  }
+}
+
+// Mean decision time in milliseconds, or null if nothing was timed
+export const averageDecisionTime = (answers: UserAnswer[]): number | null => {
+  const timed = answers.filter(answer => answer.timeTaken > 0);
+  if (timed.length === 0) return null;
+  return timed.reduce((sum, answer) => sum + answer.timeTaken, 0) / timed.length;
+};
+
+// e.g. "2.4s", or "1m 05s" for the occasional very long think
+export const formatDecisionTime = (ms: number) => {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${String(Math.floor(seconds % 60)).padStart(2, '0')}s`;
+};
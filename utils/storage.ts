@@ -0,0 +1,47 @@
+// ==========================================
+// BROWSER STORAGE QUOTA
+// ==========================================
+// Thin wrappers around the Storage API. Browsers may evict an origin's
+// IndexedDB under storage pressure unless persistence has been granted, which
+// would wipe every uploaded item on a kiosk.
+// ==========================================
+
+export interface StorageEstimate {
+  supported: boolean;
+  usage: number;      // Bytes used by this origin (all storage, not just media)
+  quota: number;      // Bytes this origin may use
+  persisted: boolean;
+}
+
+export const getStorageEstimate = async (): Promise<StorageEstimate> => {
+  if (!navigator.storage?.estimate) {
+    return { supported: false, usage: 0, quota: 0, persisted: false };
+  }
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+  ]);
+  return { supported: true, usage: estimate.usage || 0, quota: estimate.quota || 0, persisted };
+};
+
+// Resolves to whether storage is persistent afterwards. Some browsers decide
+// silently based on engagement, so a false here isn't necessarily final.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+};
+
+export const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.code === 22);
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
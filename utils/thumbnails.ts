@@ -0,0 +1,60 @@
+// ==========================================
+// THUMBNAILS & POSTER FRAMES
+// ==========================================
+// Small previews for grid views (Admin Manage, Review) so they don't decode
+// every full-size file. Images are scaled down through the image worker,
+// videos get a still taken just after their first frame.
+// ==========================================
+
+import { encodeImage, ImageProcessingSettings } from './imageProcessing';
+
+const THUMBNAIL_SETTINGS: ImageProcessingSettings = {
+  enabled: true,
+  maxDimension: 480,
+  quality: 0.7,
+  format: 'image/webp',
+};
+
+// The very first frame is often black (fade-ins, encoder padding)
+const POSTER_SEEK_SECONDS = 0.1;
+const POSTER_TIMEOUT_MS = 10000;
+
+const capturePosterFrame = (blob: Blob): Promise<Blob> => new Promise((resolve, reject) => {
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(blob);
+  const finish = (frame: Blob | null, error?: string) => {
+    window.clearTimeout(timeout);
+    URL.revokeObjectURL(url);
+    video.removeAttribute('src');
+    video.load();
+    if (frame) resolve(frame);
+    else reject(new Error(error || 'Could not capture a poster frame'));
+  };
+  const timeout = window.setTimeout(() => finish(null, 'Timed out reading video'), POSTER_TIMEOUT_MS);
+
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.onloadeddata = () => {
+    video.currentTime = Math.min(POSTER_SEEK_SECONDS, video.duration || 0);
+  };
+  video.onseeked = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || !canvas.width) {
+      finish(null, 'Video has no picture');
+      return;
+    }
+    ctx.drawImage(video, 0, 0);
+    canvas.toBlob(frame => finish(frame), 'image/png');
+  };
+  video.onerror = () => finish(null, 'Video could not be decoded');
+  video.src = url;
+});
+
+export const generateThumbnail = async (blob: Blob, type: 'image' | 'video'): Promise<Blob> => {
+  const source = type === 'video' ? await capturePosterFrame(blob) : blob;
+  return (await encodeImage(source, THUMBNAIL_SETTINGS)).blob;
+};